@@ -0,0 +1,10 @@
+-- AlterTable
+-- Generated column keeps the search document in sync with title/content on every write.
+-- Titles are weighted above content so ts_rank favours title matches.
+ALTER TABLE "public"."Idea" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Idea_searchVector_idx" ON "public"."Idea" USING GIN ("searchVector");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."IdeaRevision" (
+    "id" TEXT NOT NULL,
+    "ideaId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT,
+    "restoredFromId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IdeaRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IdeaRevision_ideaId_createdAt_idx" ON "public"."IdeaRevision"("ideaId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."IdeaRevision" ADD CONSTRAINT "IdeaRevision_ideaId_fkey" FOREIGN KEY ("ideaId") REFERENCES "public"."Idea"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: give every existing idea a baseline revision so its current state can be restored.
+INSERT INTO "public"."IdeaRevision" ("id", "ideaId", "title", "content", "createdAt")
+SELECT gen_random_uuid()::text, "id", "title", "content", "updatedAt"
+FROM "public"."Idea";
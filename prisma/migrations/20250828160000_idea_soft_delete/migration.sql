@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Idea" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Idea_deletedAt_idx" ON "public"."Idea"("deletedAt");
@@ -1,5 +1,7 @@
 // Generates tray and app icon assets from SVG sources in public/logo
-// - Tray: trayTemplate.png (16x16), trayTemplate@2x.png (32x32)
+// - Tray, per status (idle, busy, error) at 16x16 and @2x 32x32:
+//   - macOS templates: trayTemplate.png, trayBusyTemplate.png, trayErrorTemplate.png
+//   - Windows/Linux, tinted per status: tray.png, tray-busy.png, tray-error.png
 // - App icons: 256x256.png, 512x512.png, 1024x1024.png
 // - macOS: icon-logo.icns via iconutil (if available)
 // - Windows: icon-logo.ico via ImageMagick (prefers `magick`, falls back to `convert`)
@@ -14,10 +16,7 @@ const __dirname = path.dirname(url.fileURLToPath(import.meta.url))
 
 const rootDir = path.resolve(__dirname, '..')
 const logoDir = path.join(rootDir, 'src', 'renderer', 'public', 'logo')
-const traySvgPath = path.join(logoDir, 'tray.svg')
 const appIconSvgPath = path.join(logoDir, 'app-icon.svg')
-const out1x = path.join(logoDir, 'trayTemplate.png')
-const out2x = path.join(logoDir, 'trayTemplate@2x.png')
 
 const ensureDir = (dirPath) => {
   if (!fs.existsSync(dirPath)) {
@@ -32,6 +31,67 @@ const defaultTraySvg = `<?xml version="1.0" encoding="UTF-8"?>
   </g>
 </svg>`
 
+const defaultTrayBusySvg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="64" height="64" viewBox="0 0 64 64" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    <mask id="badge-gap">
+      <rect width="64" height="64" fill="white"/>
+      <rect x="30" y="40" width="34" height="18" rx="9" fill="black"/>
+    </mask>
+  </defs>
+  <g fill="#000" fill-rule="nonzero">
+    <path d="M28 4 L12 36 H28 L20 60 L52 28 H36 L44 4 Z" mask="url(#badge-gap)"/>
+    <circle cx="38" cy="49" r="4"/>
+    <circle cx="48" cy="49" r="4"/>
+    <circle cx="58" cy="49" r="4"/>
+  </g>
+</svg>`
+
+const defaultTrayErrorSvg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="64" height="64" viewBox="0 0 64 64" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    <mask id="badge-gap">
+      <rect width="64" height="64" fill="white"/>
+      <circle cx="48" cy="48" r="16" fill="black"/>
+    </mask>
+    <mask id="exclamation">
+      <rect width="64" height="64" fill="white"/>
+      <rect x="46" y="39" width="4" height="12" rx="2" fill="black"/>
+      <circle cx="48" cy="56" r="2.5" fill="black"/>
+    </mask>
+  </defs>
+  <g fill="#000" fill-rule="nonzero">
+    <path d="M28 4 L12 36 H28 L20 60 L52 28 H36 L44 4 Z" mask="url(#badge-gap)"/>
+    <circle cx="48" cy="48" r="13" mask="url(#exclamation)"/>
+  </g>
+</svg>`
+
+// One entry per tray status (see `TrayStatus` in src/main/tray.ts). Template rasters keep the
+// monochrome source for macOS to tint; the others are tinted with `color` for Windows/Linux.
+const trayStates = [
+  {
+    svg: 'tray.svg',
+    template: 'trayTemplate',
+    tinted: 'tray',
+    color: '#7C3AED',
+    sample: defaultTraySvg,
+  },
+  {
+    svg: 'tray-busy.svg',
+    template: 'trayBusyTemplate',
+    tinted: 'tray-busy',
+    color: '#0284C7',
+    sample: defaultTrayBusySvg,
+  },
+  {
+    svg: 'tray-error.svg',
+    template: 'trayErrorTemplate',
+    tinted: 'tray-error',
+    color: '#DC2626',
+    sample: defaultTrayErrorSvg,
+  },
+]
+
 const defaultAppIconSvg = `<?xml version=\"1.0\" encoding=\"UTF-8\"?>
 <svg width=\"1024\" height=\"1024\" viewBox=\"0 0 1024 1024\" xmlns=\"http://www.w3.org/2000/svg\">
   <defs>
@@ -58,29 +118,47 @@ function commandExists(cmd) {
   }
 }
 
-async function generateTrayFromSvg() {
-  ensureDir(logoDir)
+const renderTray = (svgBuffer, size) =>
+  sharp(svgBuffer)
+    .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png({ compressionLevel: 9 })
 
-  if (!fs.existsSync(traySvgPath)) {
-    fs.writeFileSync(traySvgPath, defaultTraySvg, 'utf8')
-    console.log(`Created sample tray SVG at ${traySvgPath}`)
-  }
+// Solid `color` wherever the glyph is opaque, keeping its anti-aliased edges
+async function writeTintedTray(svgBuffer, size, color, outPath) {
+  const glyph = await renderTray(svgBuffer, size).toBuffer()
+  await sharp({ create: { width: size, height: size, channels: 4, background: color } })
+    .composite([{ input: glyph, blend: 'dest-in' }])
+    .png({ compressionLevel: 9 })
+    .toFile(outPath)
+}
 
-  const svgBuffer = fs.readFileSync(traySvgPath)
+async function generateTrayFromSvg() {
+  ensureDir(logoDir)
 
-  // Generate 1x (16x16)
-  await sharp(svgBuffer)
-    .resize(16, 16, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
-    .png({ compressionLevel: 9 })
-    .toFile(out1x)
+  for (const state of trayStates) {
+    const svgPath = path.join(logoDir, state.svg)
+    if (!fs.existsSync(svgPath)) {
+      fs.writeFileSync(svgPath, state.sample, 'utf8')
+      console.log(`Created sample tray SVG at ${svgPath}`)
+    }
 
-  // Generate 2x (32x32)
-  await sharp(svgBuffer)
-    .resize(32, 32, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
-    .png({ compressionLevel: 9 })
-    .toFile(out2x)
+    const svgBuffer = fs.readFileSync(svgPath)
+    // 1x (16x16) and 2x (32x32); Electron picks `@2x` up next to the 1x file
+    for (const [suffix, size] of [
+      ['', 16],
+      ['@2x', 32],
+    ]) {
+      await renderTray(svgBuffer, size).toFile(path.join(logoDir, `${state.template}${suffix}.png`))
+      await writeTintedTray(
+        svgBuffer,
+        size,
+        state.color,
+        path.join(logoDir, `${state.tinted}${suffix}.png`),
+      )
+    }
 
-  console.log(`Generated: ${path.basename(out1x)}, ${path.basename(out2x)}`)
+    console.log(`Generated: ${state.template}.png, ${state.tinted}.png (1x and 2x)`)
+  }
 }
 
 async function generateAppIconFromSvg() {
@@ -1,5 +1,16 @@
 import { ipcMain, nativeTheme, webContents } from 'electron/main'
-import type { AppearanceSnapshot, ThemeSource } from '@shared/appearance'
+import { ThemeSourceSchema, type AppearanceSnapshot, type ThemeSource } from '@shared/appearance'
+import { appPrisma } from './soft-delete'
+import { logger } from './logger'
+
+const log = logger.child('appearance')
+
+// `Preferences` is a single-row table keyed by this id.
+const PREFERENCES_ID = 'singleton'
+
+type ThemeSourceListener = (source: ThemeSource) => void
+
+const themeSourceListeners = new Set<ThemeSourceListener>()
 
 const getSnapshot = (): AppearanceSnapshot => {
   const source = (nativeTheme.themeSource ?? 'system') as ThemeSource
@@ -18,13 +29,75 @@ const broadcastAppearanceUpdate = (): void => {
   }
 }
 
-export const setupAppearanceIpc = (): void => {
+/**
+ * Current theme source as applied to `nativeTheme`.
+ */
+export const getThemeSource = (): ThemeSource => getSnapshot().themeSource
+
+/**
+ * Subscribe to theme source changes made through {@link setThemeSource}.
+ *
+ * @returns Unsubscribe function.
+ */
+export const onThemeSourceChanged = (listener: ThemeSourceListener): (() => void) => {
+  themeSourceListeners.add(listener)
+  return () => themeSourceListeners.delete(listener)
+}
+
+/**
+ * Apply the persisted theme source to `nativeTheme`.
+ *
+ * @remarks
+ * Call after the database check and before the tray or any window is created, so the first
+ * window paints with the user's theme. A missing row, an unknown stored value or an unreachable
+ * database fall back to `'system'`.
+ */
+export const restoreThemeSource = async (): Promise<void> => {
+  let source: ThemeSource = 'system'
   try {
-    nativeTheme.themeSource = 'system'
-  } catch {}
+    const preferences = await appPrisma.preferences.findUnique({ where: { id: PREFERENCES_ID } })
+    const parsed = ThemeSourceSchema.safeParse(preferences?.themeSource)
+    if (parsed.success) source = parsed.data
+  } catch (error) {
+    log.warn('Could not load theme preference; following system', error)
+  }
+  nativeTheme.themeSource = source
+}
+
+/**
+ * Apply, persist and broadcast a theme source.
+ *
+ * @remarks
+ * `nativeTheme` only emits `updated` when the effective colors change (e.g. `system` → `dark`
+ * on a dark OS does not), so renderers are notified explicitly on `appearance:updated`.
+ * Persistence failures are logged; the theme still applies for this session.
+ *
+ * @param source - The theme source chosen from the tray or a renderer.
+ * @returns The resulting appearance snapshot.
+ */
+export const setThemeSource = async (source: ThemeSource): Promise<AppearanceSnapshot> => {
+  nativeTheme.themeSource = source
+  broadcastAppearanceUpdate()
+  for (const listener of themeSourceListeners) listener(source)
+  try {
+    await appPrisma.preferences.upsert({
+      where: { id: PREFERENCES_ID },
+      create: { id: PREFERENCES_ID, themeSource: source },
+      update: { themeSource: source },
+    })
+  } catch (error) {
+    log.error('Failed to persist theme preference', error)
+  }
+  return getSnapshot()
+}
 
+export const setupAppearanceIpc = (): void => {
   ipcMain.handle('appearance:get', () => getSnapshot())
 
+  ipcMain.handle('appearance:setThemeSource', async (_event, raw: unknown) => {
+    return setThemeSource(ThemeSourceSchema.parse(raw))
+  })
+
   nativeTheme.on('updated', () => {
     broadcastAppearanceUpdate()
   })
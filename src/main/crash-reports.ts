@@ -0,0 +1,275 @@
+/**
+ * Local crash capture for the Electron main process.
+ *
+ * Design note:
+ * - Goal: crashes leave something behind that the user can hand to us. Nothing is uploaded.
+ * - Fatal main-process errors and renderer/child process exits become JSON reports in
+ *   `userData/crashes`, with the stack, versions and the most recent log lines.
+ * - Electron's `crashReporter` runs with uploads off, so native crashes leave minidumps in
+ *   `app.getPath('crashDumps')`; they are listed alongside the JSON reports.
+ * - On the next launch, `offerCrashReports()` lists everything found in a dialog offering
+ *   "Copy report" (to the clipboard) and "Delete". "Later" keeps them for the next launch.
+ *
+ * Execution model:
+ * - Reports are written synchronously: the process may exit right after.
+ */
+import {
+  app,
+  dialog,
+  type Details,
+  type RenderProcessGoneDetails,
+  type WebContents,
+} from 'electron/main'
+import { clipboard, crashReporter } from 'electron/common'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs'
+import { release } from 'os'
+import { join } from 'path'
+import { randomBytes } from 'crypto'
+import { z } from 'zod'
+import { getRecentLogLines, logger } from './logger'
+
+const log = logger.child('crash')
+
+const CRASH_DIRECTORY_NAME = 'crashes'
+const RECENT_LOG_LINES = 100
+const DIALOG_MAX_LISTED = 10
+
+const CrashKindSchema = z.enum(['uncaught-exception', 'render-process-gone', 'child-process-gone'])
+export type CrashKind = z.infer<typeof CrashKindSchema>
+
+const CrashReportSchema = z.object({
+  id: z.string(),
+  time: z.coerce.date(),
+  kind: CrashKindSchema,
+  message: z.string(),
+  stack: z.string().nullable(),
+  details: z.record(z.unknown()).nullable(),
+  versions: z.record(z.string()),
+  recentLogLines: z.array(z.string()),
+})
+type CrashReport = z.infer<typeof CrashReportSchema>
+
+/**
+ * A crash found on disk: one of our JSON reports or a native minidump.
+ */
+type PendingCrash = {
+  time: Date
+  kind: CrashKind | 'minidump'
+  message: string
+  path: string
+  report: CrashReport | null
+}
+
+const getCrashDirectory = (): string => join(app.getPath('userData'), CRASH_DIRECTORY_NAME)
+
+const getVersions = (): Record<string, string> => ({
+  app: app.getVersion(),
+  electron: process.versions.electron,
+  chrome: process.versions.chrome,
+  node: process.versions.node,
+  os: `${process.platform} ${release()} (${process.arch})`,
+})
+
+/**
+ * Start Electron's crash reporter with uploads disabled, so native crashes of any process
+ * leave minidumps locally. Call before `app` is ready.
+ */
+export function startCrashReporter(): void {
+  crashReporter.start({ uploadToServer: false })
+}
+
+/**
+ * Persist a crash report. Never throws: failing to record a crash must not mask it.
+ */
+export function writeCrashReport(crash: {
+  kind: CrashKind
+  message: string
+  stack?: string | null
+  details?: Record<string, unknown> | null
+}): void {
+  const time = new Date()
+  const id = `${time.getTime()}-${crash.kind}-${randomBytes(3).toString('hex')}`
+  const report: CrashReport = {
+    id,
+    time,
+    kind: crash.kind,
+    message: crash.message,
+    stack: crash.stack ?? null,
+    details: crash.details ?? null,
+    versions: getVersions(),
+    recentLogLines: getRecentLogLines(RECENT_LOG_LINES),
+  }
+  try {
+    mkdirSync(getCrashDirectory(), { recursive: true })
+    writeFileSync(join(getCrashDirectory(), `${id}.json`), JSON.stringify(report, null, 2))
+  } catch (error) {
+    log.error('Failed to write crash report', error)
+  }
+}
+
+/**
+ * Record an uncaught main-process exception.
+ */
+export function captureFatalError(error: unknown): void {
+  const isError = error instanceof Error
+  writeCrashReport({
+    kind: 'uncaught-exception',
+    message: isError ? `${error.name}: ${error.message}` : String(error),
+    stack: isError ? (error.stack ?? null) : null,
+  })
+}
+
+const onRenderProcessGone = (
+  _event: Electron.Event,
+  contents: WebContents,
+  details: RenderProcessGoneDetails,
+): void => {
+  // A normal exit (e.g. a window closing during shutdown) is not a crash.
+  if (details.reason === 'clean-exit') return
+  const url = contents.isDestroyed() ? null : contents.getURL()
+  log.error(`Renderer process gone (${details.reason})`, { ...details, url })
+  writeCrashReport({
+    kind: 'render-process-gone',
+    message: `Renderer process gone: ${details.reason} (exit code ${details.exitCode})`,
+    details: { ...details, url },
+  })
+}
+
+const onChildProcessGone = (_event: Electron.Event, details: Details): void => {
+  if (details.reason === 'clean-exit') return
+  log.error(`${details.type} process gone (${details.reason})`, details)
+  writeCrashReport({
+    kind: 'child-process-gone',
+    message: `${details.type} process gone: ${details.reason} (exit code ${details.exitCode})`,
+    details: { ...details },
+  })
+}
+
+/**
+ * Record renderer and child (GPU, utility, ...) processes that exit abnormally. Idempotent.
+ */
+export function setupProcessCrashCapture(): void {
+  app.off('render-process-gone', onRenderProcessGone)
+  app.off('child-process-gone', onChildProcessGone)
+  app.on('render-process-gone', onRenderProcessGone)
+  app.on('child-process-gone', onChildProcessGone)
+}
+
+const readReports = (): PendingCrash[] => {
+  const directory = getCrashDirectory()
+  if (!existsSync(directory)) return []
+  const crashes: PendingCrash[] = []
+  for (const name of readdirSync(directory)) {
+    if (!name.endsWith('.json')) continue
+    const path = join(directory, name)
+    try {
+      const report = CrashReportSchema.parse(JSON.parse(readFileSync(path, 'utf8')))
+      crashes.push({ time: report.time, kind: report.kind, message: report.message, path, report })
+    } catch (error) {
+      log.warn(`Skipping unreadable crash report ${name}`, error)
+    }
+  }
+  return crashes
+}
+
+// Crashpad keeps dumps in `completed/` or `pending/` below the crash dumps directory.
+const readMinidumps = (directory = app.getPath('crashDumps'), depth = 0): PendingCrash[] => {
+  if (depth > 2 || !existsSync(directory)) return []
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(directory, entry.name)
+    if (entry.isDirectory()) return readMinidumps(path, depth + 1)
+    if (!entry.name.endsWith('.dmp')) return []
+    return [
+      {
+        time: statSync(path).mtime,
+        kind: 'minidump' as const,
+        message: `Native crash dump ${entry.name}`,
+        path,
+        report: null,
+      },
+    ]
+  })
+}
+
+const listPendingCrashes = (): PendingCrash[] =>
+  [...readReports(), ...readMinidumps()].sort((a, b) => b.time.getTime() - a.time.getTime())
+
+const formatCrash = (crash: PendingCrash): string => {
+  const { report } = crash
+  if (!report) {
+    return [`Native crash dump (${crash.time.toISOString()})`, `File: ${crash.path}`].join('\n')
+  }
+  return [
+    `${report.kind} at ${report.time.toISOString()}`,
+    report.message,
+    '',
+    'Versions:',
+    ...Object.entries(report.versions).map(([name, version]) => `  ${name}: ${version}`),
+    ...(report.stack ? ['', 'Stack:', report.stack] : []),
+    ...(report.details ? ['', 'Details:', JSON.stringify(report.details, null, 2)] : []),
+    '',
+    `Recent log lines (${report.recentLogLines.length}):`,
+    ...report.recentLogLines,
+  ].join('\n')
+}
+
+/**
+ * If crashes were recorded during earlier runs, list them in a dialog offering to copy the
+ * report to the clipboard or delete the crash files. Call once the app is ready.
+ */
+export async function offerCrashReports(): Promise<void> {
+  let crashes: PendingCrash[]
+  try {
+    crashes = listPendingCrashes()
+  } catch (error) {
+    log.error('Failed to list crash reports', error)
+    return
+  }
+  if (crashes.length === 0) return
+
+  const listed = crashes
+    .slice(0, DIALOG_MAX_LISTED)
+    .map((crash) => `• ${crash.time.toLocaleString()}: ${crash.message}`)
+  const more = crashes.length - listed.length
+  const detail = [...listed, ...(more > 0 ? [`…and ${more} more`] : [])].join('\n')
+
+  // Copying keeps the dialog open so the crashes can be deleted afterwards.
+  while (true) {
+    const { response } = await dialog.showMessageBox({
+      type: 'warning',
+      title: app.getName(),
+      message: `${app.getName()} recorded ${crashes.length} crash${crashes.length === 1 ? '' : 'es'} since it last ran.`,
+      detail,
+      buttons: ['Copy Report', 'Delete', 'Later'],
+      defaultId: 0,
+      cancelId: 2,
+      noLink: true,
+    })
+    if (response === 0) {
+      clipboard.writeText(crashes.map(formatCrash).join('\n\n----------\n\n'))
+      continue
+    }
+    if (response === 1) {
+      let deleted = 0
+      for (const crash of crashes) {
+        try {
+          rmSync(crash.path, { force: true })
+          deleted++
+        } catch (error) {
+          // Kept, so it is offered again on the next launch
+          log.error(`Failed to delete crash report ${crash.path}`, error)
+        }
+      }
+      log.info(`Deleted ${deleted} of ${crashes.length} crash file(s)`)
+    }
+    return
+  }
+}
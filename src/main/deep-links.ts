@@ -0,0 +1,80 @@
+/**
+ * `sparkpilot://` deep links.
+ *
+ * Design note:
+ * - A link names a window type from the window registry and a hash route to show in it:
+ *   `sparkpilot://<window>/<route>`, e.g. `sparkpilot://main/ideas/<id>`,
+ *   `sparkpilot://main/ideas/search?q=tray` or `sparkpilot://dashboard` (route `/`).
+ * - Links arrive as an `open-url` event on macOS and as a launch argument elsewhere; both end up
+ *   in `launch.ts`, which opens them through the window factory.
+ * - The OS learns about the scheme from the packaged app (`protocols` in `electron-builder.yml`)
+ *   and from {@link registerDeepLinkProtocol} at runtime, which also covers development builds.
+ */
+import { app } from 'electron/main'
+import { resolve } from 'path'
+import { z } from 'zod'
+import { WINDOW_TYPES, isWindowType, type WindowType } from '@shared/window-registry'
+import { logger } from './logger'
+
+const log = logger.child('launch')
+
+export const DEEP_LINK_PROTOCOL = 'sparkpilot'
+
+/**
+ * A hash route as windows load it: a path starting with a single `/`, optionally with a query.
+ */
+export const WindowRouteSchema = z
+  .string()
+  .max(2048)
+  .regex(/^\/(?!\/)/, 'Routes start with a single /')
+
+export type DeepLink = { type: WindowType; route: string }
+
+const issue = (context: z.RefinementCtx, message: string): typeof z.NEVER => {
+  context.addIssue({ code: z.ZodIssueCode.custom, message })
+  return z.NEVER
+}
+
+export const DeepLinkSchema = z
+  .string()
+  .max(2048)
+  .transform((value, context): DeepLink => {
+    let url: URL
+    try {
+      url = new URL(value)
+    } catch {
+      return issue(context, 'Not a valid link')
+    }
+    if (url.protocol !== `${DEEP_LINK_PROTOCOL}:`) {
+      return issue(context, `Links start with ${DEEP_LINK_PROTOCOL}://`)
+    }
+    if (!url.hostname || url.username || url.password || url.port) {
+      return issue(context, `Expected ${DEEP_LINK_PROTOCOL}://<window>/<route>`)
+    }
+    const type = url.hostname.toLowerCase()
+    if (!isWindowType(type)) {
+      return issue(
+        context,
+        `Unknown window "${url.hostname}"; expected one of ${WINDOW_TYPES.join(', ')}`,
+      )
+    }
+    const route = WindowRouteSchema.safeParse(`${url.pathname || '/'}${url.search}`)
+    if (!route.success) return issue(context, route.error.issues[0]?.message ?? 'Invalid route')
+    return { type, route: route.data }
+  })
+
+export const isDeepLink = (value: string): boolean =>
+  value.toLowerCase().startsWith(`${DEEP_LINK_PROTOCOL}:`)
+
+/**
+ * Make this app the handler of `sparkpilot://` links. In development the command includes the
+ * app path, as Electron itself is the executable.
+ */
+export function registerDeepLinkProtocol(): void {
+  const registered = process.defaultApp
+    ? app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL, process.execPath, [
+        resolve(process.argv[1] ?? '.'),
+      ])
+    : app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL)
+  if (!registered) log.warn(`Could not register as the ${DEEP_LINK_PROTOCOL}:// link handler`)
+}
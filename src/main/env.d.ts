@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_APP_NAME: string
   readonly VITE_TRPC_HTTP_URL: string
+  readonly VITE_TRPC_TRANSPORT?: string
   readonly MAIN_VITE_POSTGRES_URL: string
   readonly VITE_LMSTUDIO_LLM_SERVER_BASE_URL: string
 }
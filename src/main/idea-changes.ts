@@ -0,0 +1,46 @@
+/**
+ * Change notifications for the `Idea` table, for main-process consumers that mirror ideas
+ * outside tRPC (e.g. the tray's recent ideas).
+ *
+ * Every write through `appPrisma` (see `soft-delete.ts`) announces itself here, whichever
+ * router or job made it. Notifications carry no payload and may come in bursts, including for
+ * writes inside a transaction that is later rolled back: listeners should debounce and re-read.
+ */
+import { EventEmitter } from 'events'
+
+const IDEA_WRITE_OPERATIONS = new Set([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert',
+  'delete',
+  'deleteMany',
+])
+
+const ideaEvents = new EventEmitter()
+
+/**
+ * Whether a Prisma `Idea` operation writes.
+ */
+export const isIdeaWriteOperation = (operation: string): boolean =>
+  IDEA_WRITE_OPERATIONS.has(operation)
+
+/**
+ * @internal Called by the `appPrisma` extension after an `Idea` write.
+ */
+export function notifyIdeasChanged(): void {
+  ideaEvents.emit('change')
+}
+
+/**
+ * Subscribe to `Idea` writes.
+ *
+ * @returns Unsubscribe function.
+ */
+export function onIdeasChanged(listener: () => void): () => void {
+  ideaEvents.on('change', listener)
+  return () => ideaEvents.off('change', listener)
+}
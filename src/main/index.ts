@@ -1,10 +1,25 @@
-import { app, BrowserWindow } from 'electron/main'
+import { app } from 'electron/main'
 import { shell } from 'electron/common'
 import { platform, is } from '@electron-toolkit/utils'
 import { createAppTray, destroyAppTray } from './tray'
-import { setupAppearanceIpc } from './appearance'
+import { startTrayCoordinator, stopTrayCoordinator } from './tray-coordinator'
+import { startShortcuts, stopShortcuts } from './shortcuts'
+import { restoreThemeSource, setupAppearanceIpc } from './appearance'
 import { ensureDatabaseConnection } from './prisma'
-import { startTrpcServer, stopTrpcServer } from './trpc/server'
+import { startTrpcTransport, stopTrpcTransport } from './trpc/transport'
+import { startTrashPurge, stopTrashPurge } from './trash-purge'
+import { getSetting, loadSettings } from './settings'
+import { onAllWindowsClosed, openWindow, prepareWindows } from './windows/window-factory'
+import { flushWindowBounds } from './windows/window-bounds'
+import { getLaunchRequest, setupLaunchHandling, startLaunchHandling } from './launch'
+import { registerDeepLinkProtocol } from './deep-links'
+import { logger } from './logger'
+import {
+  captureFatalError,
+  offerCrashReports,
+  setupProcessCrashCapture,
+  startCrashReporter,
+} from './crash-reports'
 
 /**
  * Main process entry point for SparkPilot
@@ -21,14 +36,19 @@ import { startTrpcServer, stopTrpcServer } from './trpc/server'
 // Enforce renderer sandbox for all BrowserWindows (must be called before 'ready')
 app.enableSandbox()
 
+// Crash capture: local minidumps (never uploaded) and reports for renderer/child process exits
+startCrashReporter()
+setupProcessCrashCapture()
+
 // Tray-first app; windows are managed on-demand in their modules
 
 /**
  * Enforce single-instance application behavior
  *
- * If another instance is launched, focus the existing window instead of creating a new one.
+ * A second launch quits right away, forwarding its arguments and working directory to this
+ * instance, which acts on them (see `launch.ts`).
  */
-const hasSingleInstanceLock = app.requestSingleInstanceLock()
+const hasSingleInstanceLock = app.requestSingleInstanceLock(getLaunchRequest())
 
 if (!hasSingleInstanceLock) {
   app.quit()
@@ -40,15 +60,11 @@ if (!hasSingleInstanceLock) {
  * SparkPilot runs as a tray-first app. Windows are created on-demand elsewhere.
  */
 
-// Handle attempts to launch a second instance by focusing existing window
+// Handle attempts to launch a second instance by acting on its arguments, and `sparkpilot://`
+// links (registered with the OS here; macOS delivers them as events, even at cold start)
 if (hasSingleInstanceLock) {
-  app.on('second-instance', () => {
-    const existingWindow = BrowserWindow.getAllWindows()[0] ?? null
-    if (existingWindow) {
-      if (existingWindow.isMinimized()) existingWindow.restore()
-      if (existingWindow.isVisible()) existingWindow.focus()
-    }
-  })
+  setupLaunchHandling()
+  registerDeepLinkProtocol()
 }
 
 /**
@@ -68,7 +84,7 @@ app.whenReady().then(async () => {
   try {
     await ensureDatabaseConnection()
   } catch (error) {
-    console.error('Database connectivity check failed:', error)
+    logger.error('Database connectivity check failed', error)
     if (!is.dev) {
       // In production, abort startup if DB is required
       app.quit()
@@ -76,22 +92,49 @@ app.whenReady().then(async () => {
     }
   }
 
-  // Start tRPC server
-  startTrpcServer()
+  // Load persisted settings (migrating old values) and the theme before anything is shown
+  await loadSettings()
+  await restoreThemeSource()
+
+  // Serve tRPC over the configured transport (HTTP server or IPC). Windows get the server's
+  // runtime URL when created, so wait until it is listening before the tray can open any.
+  try {
+    await startTrpcTransport()
+  } catch (error) {
+    logger.error('tRPC transport failed to start', error)
+  }
+
+  // Purge ideas that have been in the trash longer than the retention period
+  startTrashPurge()
 
-  // Create system tray with dynamic windows menu
+  // Create system tray; its menu follows windows, recent ideas, health and theme
   createAppTray()
+  startTrayCoordinator()
 
-  // Appearance: follow system and notify renderers
+  // Appearance: IPC for renderers
   setupAppearanceIpc()
 
-  // Appearance persistence and sync removed in this iteration
+  // Pre-create kept-alive windows (quick capture) hidden, so they show instantly
+  prepareWindows()
+
+  // Global keyboard shortcuts from the `shortcuts.bindings` setting
+  startShortcuts()
+
+  // Launch arguments (e.g. `--window=dashboard` or a link) take precedence over the startup
+  // window; second launches and links are acted on from now on
+  if (!startLaunchHandling() && getSetting('startup.openMainWindow')) {
+    openWindow('main')
+  }
+
+  // Offer crashes recorded during earlier runs (copy to clipboard or delete)
+  void offerCrashReports()
 
   // Do not auto-show or create window on dock activation; tray controls visibility
 })
 
-// Platform-specific quit behavior: quit on non-macOS when all windows close
-app.on('window-all-closed', () => {
+// Platform-specific quit behavior: quit on non-macOS when all windows close (hidden kept-alive
+// windows such as quick capture do not count)
+onAllWindowsClosed(() => {
   if (!platform.isMacOS) {
     app.quit()
   }
@@ -100,11 +143,26 @@ app.on('window-all-closed', () => {
 // Clean up IPC handlers and stop tRPC server before quitting
 app.on('before-quit', () => {
   void (async () => {
-    await stopTrpcServer()
+    stopTrashPurge()
+    stopTrayCoordinator()
+    stopShortcuts()
+    await stopTrpcTransport()
     destroyAppTray()
   })()
 })
 
+// Windows closed by quitting save their bounds asynchronously; let those writes finish first
+let windowBoundsFlushed = false
+app.on('will-quit', (event) => {
+  if (windowBoundsFlushed) return
+  event.preventDefault()
+  void flushWindowBounds().finally(() => {
+    windowBoundsFlushed = true
+    // `exit` rather than `quit`: the quit sequence (and its cleanup above) has already run
+    app.exit()
+  })
+})
+
 // Security: Prevent unauthorized navigation and redirect to external browser
 app.on('web-contents-created', (_event, contents) => {
   // Block all window.open popups; route to system browser if needed
@@ -130,17 +188,17 @@ app.on('web-contents-created', (_event, contents) => {
   })
 })
 
-// Crash handling: Log errors and quit gracefully in production
+// Crash handling: Log errors, keep a crash report for the next launch and quit gracefully in
+// production
 process.on('uncaughtException', (error) => {
-  console.error('Uncaught Exception:', error)
-  // TODO(crash-reporting): Implement file logging or crash reporting service
+  logger.error('Uncaught exception', error)
+  captureFatalError(error)
   if (!is.dev) {
     app.quit()
   }
 })
 
 // Promise rejection handling: Log unhandled rejections
-process.on('unhandledRejection', (reason, promise) => {
-  console.error('Unhandled Rejection at:', promise, 'reason:', reason)
-  // TODO(crash-reporting): Implement file logging or crash reporting service
+process.on('unhandledRejection', (reason) => {
+  logger.error('Unhandled rejection', reason)
 })
@@ -0,0 +1,192 @@
+/**
+ * Launch arguments and deep links: what a command-line launch or a `sparkpilot://` link asks
+ * the app to show.
+ *
+ * Design note:
+ * - The app holds the single-instance lock, so a second launch exits right away. It forwards its
+ *   arguments and working directory as the lock's additional data, and the running instance
+ *   acts on them (Windows may reorder the argv Electron reports with `second-instance`, so that
+ *   is only the fallback).
+ * - Recognised arguments (`=` form only; anything else, such as Chromium switches, is ignored):
+ *   - `--window=<type>` opens (or focuses) a window type from the window registry
+ *   - `--route=<path>` shows a hash route in the main window, e.g. `--route=/ideas/search`
+ *   - `--new-idea` / `--new-idea=<title>` opens the new-idea form, optionally with a title
+ *   - a `sparkpilot://` link (see `deep-links.ts`), which is how Windows and Linux hand links over
+ * - macOS hands links over as `open-url` events instead, at cold start as well as later.
+ * - Invalid links show an error dialog; a link that does nothing would look like a broken app.
+ * - A second launch without recognised arguments shows the main window. The first launch
+ *   without any keeps the `startup.openMainWindow` setting's behaviour.
+ */
+import { app, dialog } from 'electron/main'
+import { z } from 'zod'
+import { IDEA_TITLE_MAX_LENGTH } from '@shared/ideas'
+import { isWindowType, type WindowType } from '@shared/window-registry'
+import { openWindow, openWindowAt } from './windows/window-factory'
+import { DeepLinkSchema, WindowRouteSchema, isDeepLink } from './deep-links'
+import { logger } from './logger'
+
+const log = logger.child('launch')
+
+export type LaunchAction =
+  | { kind: 'openWindow'; type: WindowType }
+  | { kind: 'openRoute'; type: WindowType; route: string }
+  | { kind: 'invalidLink'; url: string; reason: string }
+  | { kind: 'newIdea'; title: string | null }
+
+/**
+ * A launch's own arguments (without the executable and, in development, the app path) and the
+ * directory it was started from.
+ */
+export type LaunchRequest = { argv: string[]; cwd: string }
+
+const LaunchRequestSchema = z.object({ argv: z.array(z.string()), cwd: z.string() })
+
+const IdeaTitleSchema = z.string().trim().min(1).max(IDEA_TITLE_MAX_LENGTH)
+
+// `electron .` in development puts the app path before the arguments
+const ownArguments = (argv: string[]): string[] => argv.slice(process.defaultApp ? 2 : 1)
+
+/**
+ * This process's launch request, forwarded to the running instance if this one is a second.
+ */
+export function getLaunchRequest(): LaunchRequest {
+  return { argv: ownArguments(process.argv), cwd: process.cwd() }
+}
+
+const parseDeepLink = (url: string): LaunchAction => {
+  const link = DeepLinkSchema.safeParse(url)
+  if (link.success) return { kind: 'openRoute', type: link.data.type, route: link.data.route }
+  return { kind: 'invalidLink', url, reason: link.error.issues[0]?.message ?? 'Invalid link' }
+}
+
+const parseArgument = (argument: string): LaunchAction | null => {
+  if (isDeepLink(argument)) return parseDeepLink(argument)
+  const match = /^--([a-z-]+)(?:=(.*))?$/s.exec(argument)
+  if (!match) return null
+  const [, name, value] = match
+  switch (name) {
+    case 'window':
+      if (isWindowType(value)) return { kind: 'openWindow', type: value }
+      log.warn('Ignoring an unknown window type', { argument })
+      return null
+    case 'route': {
+      const route = WindowRouteSchema.safeParse(value)
+      if (route.success) return { kind: 'openRoute', type: 'main', route: route.data }
+      log.warn('Ignoring an invalid route', { argument })
+      return null
+    }
+    case 'new-idea': {
+      if (value === undefined) return { kind: 'newIdea', title: null }
+      const title = IdeaTitleSchema.safeParse(value)
+      if (title.success) return { kind: 'newIdea', title: title.data }
+      log.warn('Ignoring an invalid idea title', { argument })
+      return { kind: 'newIdea', title: null }
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * The actions a launch's arguments ask for, in argument order.
+ */
+export function parseLaunchArgs(argv: string[]): LaunchAction[] {
+  return argv.map(parseArgument).filter((action): action is LaunchAction => action !== null)
+}
+
+const showInvalidLink = (url: string, reason: string): void => {
+  log.warn('Ignoring an invalid link', { url, reason })
+  dialog
+    .showMessageBox({
+      type: 'error',
+      title: app.getName(),
+      message: `${app.getName()} cannot open this link.`,
+      detail: `${url}\n\n${reason}`,
+      buttons: ['OK'],
+      noLink: true,
+    })
+    .catch((error: unknown) => log.error('Failed to show the invalid link dialog', error))
+}
+
+/**
+ * Open and focus what each action asks for; the last one ends up in front.
+ */
+export function runLaunchActions(actions: LaunchAction[]): void {
+  for (const action of actions) {
+    switch (action.kind) {
+      case 'openWindow':
+        openWindow(action.type)
+        break
+      case 'openRoute':
+        openWindowAt(action.type, action.route)
+        break
+      case 'invalidLink':
+        showInvalidLink(action.url, action.reason)
+        break
+      case 'newIdea':
+        openWindowAt(
+          'main',
+          action.title
+            ? `/ideas/new?${new URLSearchParams({ title: action.title }).toString()}`
+            : '/ideas/new',
+        )
+        break
+    }
+  }
+}
+
+let ready = false
+// Second launches and links arriving before startup finished, handled once it has
+const pending: Array<() => void> = []
+
+const whenLaunchReady = (handle: () => void): void => {
+  if (ready) handle()
+  else pending.push(handle)
+}
+
+const parseForwardedRequest = (
+  argv: string[],
+  workingDirectory: string,
+  additionalData: unknown,
+): LaunchRequest => {
+  const forwarded = LaunchRequestSchema.safeParse(additionalData)
+  return forwarded.success ? forwarded.data : { argv: ownArguments(argv), cwd: workingDirectory }
+}
+
+const handleSecondLaunch = (request: LaunchRequest): void => {
+  const actions = parseLaunchArgs(request.argv)
+  log.info('Second launch', { cwd: request.cwd, actions: actions.map((action) => action.kind) })
+  if (actions.length > 0) runLaunchActions(actions)
+  else openWindow('main')
+}
+
+/**
+ * Listen for second launches and (macOS) opened links. Call right after taking the
+ * single-instance lock, before the app is ready, so a link that launched the app is not missed;
+ * both are queued until {@link startLaunchHandling}.
+ */
+export function setupLaunchHandling(): void {
+  app.on('second-instance', (_event, argv, workingDirectory, additionalData) => {
+    const request = parseForwardedRequest(argv, workingDirectory, additionalData)
+    whenLaunchReady(() => handleSecondLaunch(request))
+  })
+  app.on('open-url', (event, url) => {
+    event.preventDefault()
+    log.info('Opened link', { url })
+    whenLaunchReady(() => runLaunchActions([parseDeepLink(url)]))
+  })
+}
+
+/**
+ * Act on this launch's arguments and on queued second launches. Call once startup is done
+ * (windows need the tRPC transport).
+ *
+ * @returns Whether this launch's arguments asked for anything.
+ */
+export function startLaunchHandling(): boolean {
+  const actions = parseLaunchArgs(getLaunchRequest().argv)
+  runLaunchActions(actions)
+  ready = true
+  for (const handle of pending.splice(0)) handle()
+  return actions.length > 0
+}
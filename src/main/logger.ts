@@ -0,0 +1,253 @@
+/**
+ * Structured file logger for the Electron main process.
+ *
+ * Design note:
+ * - Goal: one JSON line per entry (`@shared/logs` `LogEntry`) in `app.getPath('logs')/main.log`,
+ *   readable by the in-app log viewer (`logs.tail`) and by support tooling.
+ * - Modules log through a scoped child of the root logger (`logger.child('tray')`), so entries
+ *   can be filtered by area: `app`, `tray`, `windows`, `trpc`, `prisma`, `settings`, ...
+ * - Rotation is by size: once `main.log` would exceed {@link LOG_FILE_MAX_BYTES} it becomes
+ *   `main.1.log` (shifting older files up), keeping at most {@link LOG_FILE_COUNT} files.
+ * - Entries are mirrored to the console: every level in development, `warn` and `error` in
+ *   production. `debug` entries are written to the file in development only.
+ *
+ * Execution model:
+ * - Writes are synchronous appends so entries logged right before a crash or `app.quit()` are
+ *   not lost; volume is low (a desktop app's main process).
+ * - If the log directory is not writable, file logging is switched off after one console error
+ *   and the console mirror continues.
+ */
+import { app } from 'electron/main'
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs'
+import { open } from 'fs/promises'
+import { join } from 'path'
+import { is } from '@electron-toolkit/utils'
+import {
+  LogEntrySchema,
+  LogTailInputSchema,
+  isLevelAtLeast,
+  type LogEntry,
+  type LogLevel,
+  type LogTailInput,
+} from '@shared/logs'
+
+export const LOG_FILE_MAX_BYTES = 5 * 1024 * 1024
+export const LOG_FILE_COUNT = 5
+
+const LOG_FILE_NAME = 'main.log'
+const FILE_MIN_LEVEL: LogLevel = is.dev ? 'debug' : 'info'
+const CONSOLE_MIN_LEVEL: LogLevel = is.dev ? 'debug' : 'warn'
+
+export type Logger = {
+  readonly scope: string
+  debug: (message: string, data?: unknown) => void
+  info: (message: string, data?: unknown) => void
+  warn: (message: string, data?: unknown) => void
+  error: (message: string, data?: unknown) => void
+  /** Logger for a sub-area; its scope is `<parent>.<scope>`. */
+  child: (scope: string) => Logger
+}
+
+// Kept in memory so crash reports can include them even when file logging is off.
+const RECENT_LINES_CAPACITY = 200
+const recentLines: string[] = []
+
+let logDirectory: string | null = null
+let currentSize: number | null = null
+let fileDisabled = false
+
+/**
+ * Directory holding `main.log` and its rotations.
+ */
+export function getLogDirectory(): string {
+  if (!logDirectory) {
+    try {
+      logDirectory = app.getPath('logs')
+    } catch {
+      // Not yet set on this platform; use Electron's default location.
+      app.setAppLogsPath()
+      logDirectory = app.getPath('logs')
+    }
+  }
+  return logDirectory
+}
+
+// `main.log`, `main.1.log`, ... newest first.
+const getLogFilePath = (index: number): string =>
+  join(
+    getLogDirectory(),
+    index === 0 ? LOG_FILE_NAME : LOG_FILE_NAME.replace('.log', `.${index}.log`),
+  )
+
+const rotate = (): void => {
+  rmSync(getLogFilePath(LOG_FILE_COUNT - 1), { force: true })
+  for (let index = LOG_FILE_COUNT - 2; index >= 0; index--) {
+    const from = getLogFilePath(index)
+    if (existsSync(from)) renameSync(from, getLogFilePath(index + 1))
+  }
+  currentSize = 0
+}
+
+// Errors do not serialize with JSON.stringify; keep what helps debugging.
+const replacer = (_key: string, value: unknown): unknown => {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+      ...('code' in value ? { code: value.code } : {}),
+      ...(value.cause !== undefined ? { cause: value.cause } : {}),
+    }
+  }
+  if (typeof value === 'bigint') return value.toString()
+  return value
+}
+
+const serialize = (entry: LogEntry): string => {
+  try {
+    return JSON.stringify(entry, replacer)
+  } catch {
+    // Cyclic data: keep the entry, drop the payload.
+    return JSON.stringify({ ...entry, data: '[unserializable]' })
+  }
+}
+
+const writeToFile = (line: string): void => {
+  if (fileDisabled) return
+  try {
+    const bytes = Buffer.byteLength(line)
+    if (currentSize === null) {
+      mkdirSync(getLogDirectory(), { recursive: true })
+      const path = getLogFilePath(0)
+      currentSize = existsSync(path) ? statSync(path).size : 0
+    }
+    if (currentSize > 0 && currentSize + bytes > LOG_FILE_MAX_BYTES) rotate()
+    appendFileSync(getLogFilePath(0), line)
+    currentSize += bytes
+  } catch (error) {
+    fileDisabled = true
+    console.error('[logger] File logging disabled; could not write to the log directory:', error)
+  }
+}
+
+const writeToConsole = (entry: LogEntry): void => {
+  const text = `[${entry.scope}] ${entry.message}`
+  const args = entry.data === undefined ? [text] : [text, entry.data]
+  if (entry.level === 'error') console.error(...args)
+  else console.warn(...args)
+}
+
+const write = (level: LogLevel, scope: string, message: string, data: unknown): void => {
+  const entry: LogEntry = { time: new Date(), level, scope, message, data }
+  if (isLevelAtLeast(level, FILE_MIN_LEVEL)) {
+    const line = serialize(entry)
+    recentLines.push(line)
+    if (recentLines.length > RECENT_LINES_CAPACITY) recentLines.shift()
+    writeToFile(`${line}\n`)
+  }
+  if (isLevelAtLeast(level, CONSOLE_MIN_LEVEL)) writeToConsole(entry)
+}
+
+const createLogger = (scope: string): Logger => {
+  return {
+    scope,
+    debug: (message, data) => write('debug', scope, message, data),
+    info: (message, data) => write('info', scope, message, data),
+    warn: (message, data) => write('warn', scope, message, data),
+    error: (message, data) => write('error', scope, message, data),
+    child: (childScope) => createLogger(`${scope}.${childScope}`),
+  }
+}
+
+/**
+ * Root logger (`app` scope) for process-wide events.
+ *
+ * Its children are the top-level areas: `logger.child('tray')` logs as `tray`, and a child of
+ * that as `tray.<scope>`.
+ */
+export const logger: Logger = { ...createLogger('app'), child: (scope) => createLogger(scope) }
+
+/**
+ * The last `count` serialized entries written at file level, oldest first (in memory).
+ */
+export function getRecentLogLines(count = 100): string[] {
+  return recentLines.slice(-count)
+}
+
+const matchesScope = (entryScope: string, scope: string | undefined): boolean =>
+  !scope || entryScope === scope || entryScope.startsWith(`${scope}.`)
+
+const TAIL_CHUNK_BYTES = 64 * 1024
+
+// Lines of a file from last to first, read in chunks from the end so a tail of a large file
+// only reads what it needs.
+async function* readLinesBackwards(path: string): AsyncGenerator<string> {
+  const file = await open(path, 'r')
+  try {
+    let position = (await file.stat()).size
+    // Start of the line the previous chunk cut off
+    let rest = Buffer.alloc(0)
+    while (position > 0) {
+      const length = Math.min(TAIL_CHUNK_BYTES, position)
+      position -= length
+      const chunk = Buffer.alloc(length)
+      await file.read(chunk, 0, length, position)
+      const buffer = Buffer.concat([chunk, rest])
+      let end = buffer.length
+      while (end > 0) {
+        const newline = buffer.lastIndexOf(0x0a, end - 1)
+        if (newline < 0) break
+        yield buffer.toString('utf8', newline + 1, end)
+        end = newline
+      }
+      rest = buffer.subarray(0, end)
+    }
+    yield rest.toString('utf8')
+  } finally {
+    await file.close()
+  }
+}
+
+// Lines that are not valid entries (e.g. cut off by a crash) are skipped.
+const parseLogLine = (line: string): LogEntry | null => {
+  if (!line) return null
+  try {
+    const parsed = LogEntrySchema.safeParse(JSON.parse(line))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The most recent entries matching the filters, oldest first, plus the scopes seen while reading
+ * (for the viewer's scope filter).
+ *
+ * @remarks
+ * Reads `main.log` backwards, then older rotations, and stops as soon as `limit` matches are
+ * found, so refreshing the viewer does not re-read whole files.
+ */
+export async function tailLogs(
+  rawInput: LogTailInput = {},
+): Promise<{ entries: LogEntry[]; scopes: string[] }> {
+  const { minLevel, scope, limit } = LogTailInputSchema.parse(rawInput)
+  const entries: LogEntry[] = []
+  const scopes = new Set<string>()
+  for (let index = 0; index < LOG_FILE_COUNT && entries.length < limit; index++) {
+    try {
+      for await (const line of readLinesBackwards(getLogFilePath(index))) {
+        const entry = parseLogLine(line)
+        if (!entry) continue
+        scopes.add(entry.scope)
+        if (isLevelAtLeast(entry.level, minLevel) && matchesScope(entry.scope, scope)) {
+          entries.push(entry)
+          if (entries.length >= limit) break
+        }
+      }
+    } catch {
+      // Not rotated that far yet (or unreadable), so there are no older files either
+      break
+    }
+  }
+  return { entries: entries.reverse(), scopes: [...scopes].sort() }
+}
@@ -23,6 +23,7 @@ import { PrismaClient as PrismaClientRuntime } from '@prisma/client'
 import { existsSync } from 'fs'
 import { join, resolve } from 'path'
 import { platform, is } from '@electron-toolkit/utils'
+import { logger } from './logger'
 
 // Ensure Prisma Node-API engine path is correctly resolved in packaged apps
 const engineFileName = platform.isMacOS
@@ -48,24 +49,41 @@ const globalForPrisma = globalThis as unknown as { prisma?: unknown }
  * Shared `PrismaClient` instance for the main process.
  *
  * @remarks
- * - Logs are limited to 'error' and 'warn' to reduce noise.
+ * - Logs are limited to 'error' and 'warn' to reduce noise, and are emitted as events so they
+ *   go to the `prisma` scope of the file logger instead of stdout.
  * - Data source URL is read from `MAIN_VITE_POSTGRES_URL`.
  */
 type PrismaClientConstructor = new (config: {
-  log: Array<'error' | 'warn'>
+  log: Array<{ emit: 'event'; level: 'error' | 'warn' }>
   datasources: { db: { url: string } }
 }) => unknown
 
+type PrismaLogEvent = { message: string; target: string }
+
+type PrismaLogEmitter = {
+  $on: (level: 'error' | 'warn', listener: (event: PrismaLogEvent) => void) => void
+}
+
 const PrismaClientCtor = PrismaClientRuntime as unknown as PrismaClientConstructor
 
-export const prisma: unknown =
-  globalForPrisma.prisma ??
-  new PrismaClientCtor({
-    log: ['error', 'warn'],
+const createPrismaClient = (): unknown => {
+  const client = new PrismaClientCtor({
+    log: [
+      { emit: 'event', level: 'error' },
+      { emit: 'event', level: 'warn' },
+    ],
     datasources: {
       db: { url: import.meta.env.MAIN_VITE_POSTGRES_URL },
     },
   })
+  const log = logger.child('prisma')
+  const emitter = client as PrismaLogEmitter
+  emitter.$on('error', ({ message, target }) => log.error(message, { target }))
+  emitter.$on('warn', ({ message, target }) => log.warn(message, { target }))
+  return client
+}
+
+export const prisma: unknown = globalForPrisma.prisma ?? createPrismaClient()
 
 if (is.dev) {
   // Persist the client across module reloads in development to avoid new connections.
@@ -0,0 +1,158 @@
+/**
+ * Settings store for the Electron main process.
+ *
+ * Design note:
+ * - Goal: typed, validated settings persisted in the `Setting` table, readable synchronously by
+ *   main-process modules and observable by renderers (via the `settings` tRPC router).
+ * - Keys, schemas, defaults and migrations are declared in `@shared/settings`.
+ * - Values are loaded once at startup into an in-memory cache; writes go to the database first
+ *   and update the cache only once persisted, then notify listeners.
+ *
+ * Preconditions:
+ * - `loadSettings()` must run (after the database check) before `getSetting()` is relied on;
+ *   until then, and when the database is unreachable, defaults are served.
+ *
+ * Side effects:
+ * - `loadSettings()` writes back values it migrated or repaired.
+ */
+import { EventEmitter } from 'events'
+import type { Prisma } from '@prisma/client'
+import {
+  SETTINGS,
+  SETTING_KEYS,
+  getDefaultSettings,
+  type SettingChange,
+  type SettingKey,
+  type SettingValue,
+  type SettingsSnapshot,
+} from '@shared/settings'
+import { appPrisma } from './soft-delete'
+import { logger } from './logger'
+
+const log = logger.child('settings')
+
+// Keyed loosely; every write goes through the key's schema, so reads can narrow safely.
+const cache: Record<SettingKey, unknown> = getDefaultSettings()
+
+/**
+ * Emits `'change'` with a {@link SettingChange} after every successful write.
+ *
+ * @internal Exposed for the tRPC subscription; use {@link onSettingChanged} elsewhere.
+ */
+export const settingsEvents = new EventEmitter()
+// One listener per open subscription (windows × tabs); avoid spurious leak warnings.
+settingsEvents.setMaxListeners(0)
+
+/**
+ * Upgrade a stored value to the key's current version and validate it.
+ *
+ * @returns The valid value, or `null` when it cannot be migrated or fails validation.
+ */
+const migrateValue = (
+  key: SettingKey,
+  stored: unknown,
+  storedVersion: number,
+): { value: unknown } | null => {
+  const definition = SETTINGS[key]
+  const migrations: Record<number, (previous: unknown) => unknown> =
+    'migrations' in definition && definition.migrations ? definition.migrations : {}
+  let value = stored
+  for (let version = storedVersion + 1; version <= definition.version; version++) {
+    const migrate = migrations[version]
+    if (!migrate) return null
+    value = migrate(value)
+  }
+  const parsed = definition.schema.safeParse(value)
+  return parsed.success ? { value: parsed.data } : null
+}
+
+const persist = async (key: SettingKey, value: unknown): Promise<void> => {
+  const json = value as Prisma.InputJsonValue
+  const version = SETTINGS[key].version
+  await appPrisma.setting.upsert({
+    where: { key },
+    create: { key, value: json, version },
+    update: { value: json, version },
+  })
+}
+
+/**
+ * Load, migrate and cache all stored settings.
+ *
+ * @remarks
+ * Rows for unknown keys are left untouched (they may belong to a newer build). Rows written by a
+ * newer schema version are not downgraded; the default is served instead. Failures are logged
+ * and leave defaults in place.
+ */
+export async function loadSettings(): Promise<void> {
+  let rows: Array<{ key: string; value: Prisma.JsonValue; version: number }>
+  try {
+    rows = await appPrisma.setting.findMany()
+  } catch (error) {
+    log.error('Failed to load settings; using defaults', error)
+    return
+  }
+  for (const row of rows) {
+    if (!(SETTING_KEYS as string[]).includes(row.key)) continue
+    const key = row.key as SettingKey
+    const definition = SETTINGS[key]
+    if (row.version > definition.version) {
+      log.warn(`${key} was written by a newer version (${row.version}); ignoring`)
+      continue
+    }
+    const migrated = migrateValue(key, row.value, row.version)
+    if (!migrated) {
+      log.warn(`${key} v${row.version} is invalid; resetting to default`)
+      await persist(key, definition.default).catch((error: unknown) => {
+        log.error(`Failed to reset ${key}`, error)
+      })
+      continue
+    }
+    cache[key] = migrated.value
+    if (row.version !== definition.version) {
+      await persist(key, migrated.value).catch((error: unknown) => {
+        log.error(`Failed to store migrated ${key}`, error)
+      })
+    }
+  }
+}
+
+/**
+ * Current value of a setting (cached; never touches the database).
+ */
+export function getSetting<K extends SettingKey>(key: K): SettingValue<K> {
+  return cache[key] as SettingValue<K>
+}
+
+/**
+ * All settings as a plain snapshot.
+ */
+export function getAllSettings(): SettingsSnapshot {
+  return { ...cache } as SettingsSnapshot
+}
+
+/**
+ * Validate, persist and broadcast a setting.
+ *
+ * @throws ZodError when `value` does not match the key's schema.
+ */
+export async function setSetting<K extends SettingKey>(
+  key: K,
+  value: SettingValue<K>,
+): Promise<SettingValue<K>> {
+  const parsed = SETTINGS[key].schema.parse(value) as SettingValue<K>
+  await persist(key, parsed)
+  cache[key] = parsed
+  settingsEvents.emit('change', { key, value: parsed } as SettingChange)
+  return parsed
+}
+
+/**
+ * Subscribe to setting changes from any writer (tRPC or main-process code).
+ *
+ * @returns Unsubscribe function.
+ */
+export function onSettingChanged(listener: (change: SettingChange) => void): () => void {
+  settingsEvents.on('change', listener)
+  return () => settingsEvents.off('change', listener)
+}
@@ -13,6 +13,15 @@ export const ThemeSourceSchema = z.union([
 ])
 export type ThemeSource = z.infer<typeof ThemeSourceSchema>
 
+/**
+ * Display names of the theme sources, in menu order (tray menu, theme select, palette).
+ */
+export const THEME_SOURCE_LABELS: Record<ThemeSource, string> = {
+  system: 'System',
+  light: 'Light',
+  dark: 'Dark',
+}
+
 export const AppearanceSnapshotSchema = z.object({
   themeSource: ThemeSourceSchema,
   shouldUseDarkColors: z.boolean(),
@@ -0,0 +1,111 @@
+/**
+ * Idea domain shared schemas
+ *
+ * Validation rules for ideas live here so the tRPC router (main) and the edit forms
+ * (renderer) enforce the same limits. Do not import Electron or Prisma from this file.
+ */
+import { z } from 'zod'
+import { TagFilterSchema } from './tags'
+
+export const IDEA_TITLE_MAX_LENGTH = 200
+export const IDEA_CONTENT_MAX_LENGTH = 100_000
+
+export const IdeaIdSchema = z.string().min(1)
+
+export const IdeaFieldsSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(IDEA_TITLE_MAX_LENGTH),
+  content: z.string().max(IDEA_CONTENT_MAX_LENGTH).nullable(),
+})
+export type IdeaFields = z.infer<typeof IdeaFieldsSchema>
+
+/**
+ * Keyset cursor for idea lists, ordered by `createdAt` then `id` (both descending).
+ *
+ * @remarks
+ * `id` breaks ties between ideas created within the same millisecond, so pages never
+ * skip or repeat rows when new ideas are inserted between fetches.
+ */
+export const IdeaCursorSchema = z.object({
+  createdAt: z.date(),
+  id: IdeaIdSchema,
+})
+export type IdeaCursor = z.infer<typeof IdeaCursorSchema>
+
+export const IdeaListInputSchema = z.object({
+  cursor: IdeaCursorSchema.nullish(),
+  limit: z.number().int().min(1).max(100).default(20),
+  tags: TagFilterSchema.optional(),
+})
+export type IdeaListInput = z.input<typeof IdeaListInputSchema>
+
+/**
+ * Keyset cursor for the trash, ordered by `deletedAt` then `id` (both descending).
+ */
+export const TrashCursorSchema = z.object({
+  deletedAt: z.date(),
+  id: IdeaIdSchema,
+})
+export type TrashCursor = z.infer<typeof TrashCursorSchema>
+
+export const TrashListInputSchema = z.object({
+  cursor: TrashCursorSchema.nullish(),
+  limit: z.number().int().min(1).max(100).default(20),
+})
+export type TrashListInput = z.input<typeof TrashListInputSchema>
+
+export const IdeaCreateInputSchema = IdeaFieldsSchema.extend({
+  content: IdeaFieldsSchema.shape.content.default(null),
+})
+
+export const IdeaUpdateInputSchema = z.object({
+  id: IdeaIdSchema,
+  data: IdeaFieldsSchema.partial(),
+})
+
+/**
+ * Delimiters wrapped around matched terms in search snippets.
+ *
+ * @remarks
+ * Control characters are used instead of HTML tags because idea content is untrusted text;
+ * the renderer splits on these markers (see {@link splitHighlights}) and never injects HTML.
+ */
+export const HIGHLIGHT_START = '\u0002'
+export const HIGHLIGHT_STOP = '\u0003'
+
+export const IdeaSearchInputSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  // Offset into the ranked result set; ranks are not stable keys, so keyset paging does not apply.
+  cursor: z.number().int().min(0).nullish(),
+  limit: z.number().int().min(1).max(50).default(20),
+})
+export type IdeaSearchInput = z.input<typeof IdeaSearchInputSchema>
+
+export type HighlightSegment = { text: string; highlighted: boolean }
+
+/**
+ * Split a `ts_headline` snippet into plain and highlighted segments.
+ *
+ * @param snippet - Snippet produced with {@link HIGHLIGHT_START}/{@link HIGHLIGHT_STOP} markers.
+ * @returns Segments in order; empty segments are omitted.
+ *
+ * @example
+ * ```ts
+ * splitHighlights('a \u0002b\u0003 c')
+ * // [{ text: 'a ', highlighted: false }, { text: 'b', highlighted: true }, { text: ' c', ... }]
+ * ```
+ */
+export const splitHighlights = (snippet: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = []
+  for (const part of snippet.split(HIGHLIGHT_START)) {
+    const stop = part.indexOf(HIGHLIGHT_STOP)
+    if (stop === -1) {
+      if (part) segments.push({ text: part, highlighted: false })
+      continue
+    }
+    const marked = part.slice(0, stop)
+    const rest = part.slice(stop + HIGHLIGHT_STOP.length)
+    if (marked) segments.push({ text: marked, highlighted: true })
+    if (rest) segments.push({ text: rest, highlighted: false })
+  }
+  return segments
+}
@@ -0,0 +1,40 @@
+/**
+ * Log shared schemas
+ *
+ * Entry shape written by the main-process logger (`src/main/logger.ts`) and the input of the
+ * `logs.tail` query used by the log viewer. Do not import Electron or Prisma from this file.
+ */
+import { z } from 'zod'
+
+/** Ordered from least to most severe. */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const
+export const LogLevelSchema = z.enum(LOG_LEVELS)
+export type LogLevel = z.infer<typeof LogLevelSchema>
+
+/**
+ * One JSON line in the log file.
+ */
+export const LogEntrySchema = z.object({
+  time: z.coerce.date(),
+  level: LogLevelSchema,
+  /** Dot-separated, e.g. `trpc` or `trpc.ipc` for a child of `trpc`. */
+  scope: z.string(),
+  message: z.string(),
+  data: z.unknown().optional(),
+})
+export type LogEntry = z.infer<typeof LogEntrySchema>
+
+export const LOG_TAIL_MAX_LIMIT = 1000
+
+/**
+ * Filters for `logs.tail`. `scope` matches the scope itself and its children.
+ */
+export const LogTailInputSchema = z.object({
+  minLevel: LogLevelSchema.default('debug'),
+  scope: z.string().trim().min(1).optional(),
+  limit: z.number().int().min(1).max(LOG_TAIL_MAX_LIMIT).default(200),
+})
+export type LogTailInput = z.input<typeof LogTailInputSchema>
+
+export const isLevelAtLeast = (level: LogLevel, minimum: LogLevel): boolean =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum)
@@ -0,0 +1,140 @@
+/**
+ * Settings shared definitions
+ *
+ * Every setting key declares its zod schema, default value and schema version here, so the
+ * settings store (main) and settings views (renderer) agree on types. Values are persisted by
+ * `src/main/settings.ts`. Do not import Electron or Prisma from this file.
+ *
+ * Versioning: bump `version` whenever a key's stored shape changes and add a migration keyed by
+ * the new version. On startup, stored values are upgraded one version at a time, validated, and
+ * written back; values that still fail validation fall back to the default.
+ */
+import { z } from 'zod'
+import { IDEA_CONTENT_MAX_LENGTH, IDEA_TITLE_MAX_LENGTH } from './ideas'
+import { DEFAULT_SHORTCUT_BINDINGS, ShortcutBindingsSchema } from './shortcuts'
+
+/**
+ * Upgrade a stored value from `version - 1` to the version it is keyed by.
+ */
+export type SettingMigration = (previous: unknown) => unknown
+
+export type SettingDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> = {
+  schema: S
+  default: z.output<S>
+  /** Current schema version; starts at 1. */
+  version: number
+  /** Migrations keyed by the version they produce (e.g. `2` upgrades a version-1 value). */
+  migrations?: Record<number, SettingMigration>
+}
+
+/**
+ * A window's last bounds in screen coordinates, plus the display it was on.
+ */
+export const WindowBoundsSchema = z.object({
+  x: z.number().int(),
+  y: z.number().int(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  displayId: z.number(),
+})
+export type WindowBounds = z.infer<typeof WindowBoundsSchema>
+
+const defineSetting = <S extends z.ZodTypeAny>(
+  definition: SettingDefinition<S>,
+): SettingDefinition<S> => definition
+
+export const SETTINGS = {
+  /** Open the main window when the app starts instead of waiting in the tray. */
+  'startup.openMainWindow': defineSetting({
+    schema: z.boolean(),
+    default: false,
+    version: 1,
+  }),
+  /** Days an idea stays in the trash before the scheduled purge deletes it. */
+  'trash.retentionDays': defineSetting({
+    schema: z.number().int().min(1).max(3650),
+    default: 30,
+    version: 1,
+  }),
+  /** Last bounds per window type (`WindowType`), restored when the window opens again. */
+  'windows.bounds': defineSetting({
+    schema: z.record(z.string(), WindowBoundsSchema),
+    default: {},
+    version: 1,
+  }),
+  /** Global keyboard shortcut per action (`null` for none); registered by `src/main/shortcuts.ts`. */
+  'shortcuts.bindings': defineSetting({
+    schema: ShortcutBindingsSchema,
+    default: DEFAULT_SHORTCUT_BINDINGS,
+    version: 1,
+  }),
+  /** Unsaved text in the quick-capture popup, kept when it is dismissed and across launches. */
+  'capture.draft': defineSetting({
+    schema: z.object({
+      title: z.string().max(IDEA_TITLE_MAX_LENGTH),
+      content: z.string().max(IDEA_CONTENT_MAX_LENGTH),
+    }),
+    default: { title: '', content: '' },
+    version: 1,
+  }),
+  /** Command palette command ids, most recently run first; they rank first in the palette. */
+  'palette.recentCommands': defineSetting({
+    schema: z.array(z.string().min(1)).max(20),
+    default: [],
+    version: 1,
+  }),
+  /** Record tRPC calls for the dashboard's call inspector (always on in development). */
+  'diagnostics.callInspector': defineSetting({
+    schema: z.boolean(),
+    default: false,
+    version: 1,
+  }),
+} as const
+
+export type SettingKey = keyof typeof SETTINGS
+export type SettingValue<K extends SettingKey> = z.output<(typeof SETTINGS)[K]['schema']>
+export type SettingsSnapshot = { [K in SettingKey]: SettingValue<K> }
+
+export const SETTING_KEYS = Object.keys(SETTINGS) as SettingKey[]
+
+export const SettingKeySchema = z.enum(SETTING_KEYS as [SettingKey, ...SettingKey[]])
+
+type SettingSetInputOption<K extends SettingKey> = z.ZodObject<{
+  key: z.ZodLiteral<K>
+  value: (typeof SETTINGS)[K]['schema']
+}>
+type SettingSetInputOptions = { [K in SettingKey]: SettingSetInputOption<K> }[SettingKey]
+
+/**
+ * Input for writing one setting: one object schema per key, so `value` is validated against (and
+ * typed as) that key's own schema.
+ */
+export const SettingSetInputSchema = z.discriminatedUnion(
+  'key',
+  SETTING_KEYS.map((key) => z.object({ key: z.literal(key), value: SETTINGS[key].schema })) as [
+    SettingSetInputOptions,
+    ...SettingSetInputOptions[],
+  ],
+)
+
+/**
+ * A single setting change, as broadcast to subscribers.
+ */
+export type SettingChange = {
+  [K in SettingKey]: { key: K; value: SettingValue<K> }
+}[SettingKey]
+
+/**
+ * A setting change for one key. TypeScript cannot relate a generic key to its value inside the
+ * {@link SettingChange} union, so typed setters build changes through this helper.
+ */
+export const toSettingChange = <K extends SettingKey>(
+  key: K,
+  value: SettingValue<K>,
+): SettingChange => ({ key, value }) as SettingChange
+
+/**
+ * Defaults for every key, e.g. to render before the store has loaded.
+ */
+export const getDefaultSettings = (): SettingsSnapshot =>
+  Object.fromEntries(SETTING_KEYS.map((key) => [key, SETTINGS[key].default])) as SettingsSnapshot
@@ -0,0 +1,189 @@
+/**
+ * Global keyboard shortcut shared definitions
+ *
+ * Actions, their default accelerators and the bindings schema, shared by the shortcut
+ * registration in main (`src/main/shortcuts.ts`) and the settings view. Bindings persist in the
+ * `shortcuts.bindings` setting. Do not import Electron modules from this file.
+ *
+ * Accelerators use Electron's syntax (`CommandOrControl+Shift+M`); see
+ * https://www.electronjs.org/docs/latest/api/accelerator.
+ */
+import { z } from 'zod'
+
+export const SHORTCUT_ACTIONS = {
+  openMain: { label: 'Open main window', defaultAccelerator: 'CommandOrControl+Shift+M' },
+  toggleDashboard: { label: 'Toggle dashboard', defaultAccelerator: 'CommandOrControl+Shift+D' },
+  quickCapture: { label: 'Quick capture', defaultAccelerator: 'CommandOrControl+Shift+Space' },
+} as const satisfies Record<string, { label: string; defaultAccelerator: string }>
+
+export type ShortcutAction = keyof typeof SHORTCUT_ACTIONS
+
+export const SHORTCUT_ACTION_IDS = Object.keys(SHORTCUT_ACTIONS) as [
+  ShortcutAction,
+  ...ShortcutAction[],
+]
+
+// Canonical spelling per modifier alias
+const MODIFIERS: Record<string, string> = {
+  command: 'Command',
+  cmd: 'Command',
+  control: 'Control',
+  ctrl: 'Control',
+  commandorcontrol: 'CommandOrControl',
+  cmdorctrl: 'CommandOrControl',
+  alt: 'Alt',
+  option: 'Alt',
+  altgr: 'AltGr',
+  shift: 'Shift',
+  super: 'Super',
+  meta: 'Super',
+}
+
+// Modifier order in canonical accelerators
+const MODIFIER_ORDER = ['CommandOrControl', 'Command', 'Control', 'Super', 'Alt', 'AltGr', 'Shift']
+
+const NAMED_KEYS = [
+  'Plus',
+  'Space',
+  'Tab',
+  'Capslock',
+  'Numlock',
+  'Scrolllock',
+  'Backspace',
+  'Delete',
+  'Insert',
+  'Return',
+  'Enter',
+  'Up',
+  'Down',
+  'Left',
+  'Right',
+  'Home',
+  'End',
+  'PageUp',
+  'PageDown',
+  'Escape',
+  'Esc',
+  'PrintScreen',
+  ...Array.from({ length: 24 }, (_, index) => `F${index + 1}`),
+  ...Array.from({ length: 10 }, (_, index) => `num${index}`),
+  'numdec',
+  'numadd',
+  'numsub',
+  'nummult',
+  'numdiv',
+]
+const NAMED_KEYS_BY_LOWER = new Map(NAMED_KEYS.map((key) => [key.toLowerCase(), key]))
+
+// Single characters Electron accepts as keys (`+` is spelled `Plus`)
+const CHARACTER_KEY = /^[A-Za-z0-9)!@#$%^&*(:;<=>?`~_\-[\]\\|{}'",./]$/
+
+/**
+ * Canonical form of an accelerator: known aliases resolved, modifiers ordered, letters upper
+ * case. `null` if it is not a valid accelerator for a global shortcut, which needs at least one
+ * modifier and exactly one key.
+ */
+export function normalizeAccelerator(accelerator: string): string | null {
+  const parts = accelerator.split('+').map((part) => part.trim())
+  if (parts.some((part) => part === '')) return null
+  const key = parts.pop()
+  if (!key || parts.length === 0) return null
+  const modifiers = new Set<string>()
+  for (const part of parts) {
+    const modifier = MODIFIERS[part.toLowerCase()]
+    if (!modifier || modifiers.has(modifier)) return null
+    modifiers.add(modifier)
+  }
+  const namedKey = NAMED_KEYS_BY_LOWER.get(key.toLowerCase())
+  if (!namedKey && !CHARACTER_KEY.test(key)) return null
+  return [
+    ...MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier)),
+    namedKey ?? key.toUpperCase(),
+  ].join('+')
+}
+
+// Both platform readings of `CommandOrControl`, so a conflict on either platform is caught
+const expandAccelerator = (canonical: string): string[] =>
+  canonical.includes('CommandOrControl')
+    ? ['Command', 'Control'].map((modifier) =>
+        canonical
+          .split('+')
+          .map((part) => (part === 'CommandOrControl' ? modifier : part))
+          .sort()
+          .join('+'),
+      )
+    : [canonical.split('+').sort().join('+')]
+
+/**
+ * Whether two accelerators would trigger on the same keys on macOS or on Windows/Linux.
+ */
+export function acceleratorsConflict(a: string, b: string): boolean {
+  const canonicalA = normalizeAccelerator(a)
+  const canonicalB = normalizeAccelerator(b)
+  if (!canonicalA || !canonicalB) return false
+  const expandedB = new Set(expandAccelerator(canonicalB))
+  return expandAccelerator(canonicalA).some((combination) => expandedB.has(combination))
+}
+
+export const AcceleratorSchema = z
+  .string()
+  .refine((value) => normalizeAccelerator(value) !== null, {
+    message: 'Not a valid shortcut; use at least one modifier and one key (e.g. Ctrl+Shift+M)',
+  })
+  .transform((value) => normalizeAccelerator(value) as string)
+
+/**
+ * Accelerator per action; `null` leaves the action without a shortcut.
+ */
+export type ShortcutBindings = Record<ShortcutAction, string | null>
+
+/**
+ * Actions whose accelerator conflicts with another action's, paired with that action.
+ */
+export function findShortcutConflicts(
+  bindings: Partial<ShortcutBindings>,
+): Array<[ShortcutAction, ShortcutAction]> {
+  const conflicts: Array<[ShortcutAction, ShortcutAction]> = []
+  SHORTCUT_ACTION_IDS.forEach((action, index) => {
+    const accelerator = bindings[action]
+    if (!accelerator) return
+    for (const other of SHORTCUT_ACTION_IDS.slice(index + 1)) {
+      const otherAccelerator = bindings[other]
+      if (otherAccelerator && acceleratorsConflict(accelerator, otherAccelerator)) {
+        conflicts.push([action, other])
+      }
+    }
+  })
+  return conflicts
+}
+
+export const ShortcutBindingsSchema = z
+  .object(
+    Object.fromEntries(
+      SHORTCUT_ACTION_IDS.map((action) => [action, AcceleratorSchema.nullable()]),
+    ) as Record<ShortcutAction, z.ZodNullable<typeof AcceleratorSchema>>,
+  )
+  .superRefine((bindings, context) => {
+    for (const [action, other] of findShortcutConflicts(bindings)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [other],
+        message: `${SHORTCUT_ACTIONS[other].label} uses the same shortcut as ${SHORTCUT_ACTIONS[action].label}`,
+      })
+    }
+  })
+
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  SHORTCUT_ACTION_IDS.map((action) => [action, SHORTCUT_ACTIONS[action].defaultAccelerator]),
+) as ShortcutBindings
+
+/**
+ * Registration outcome of one action's shortcut in main.
+ */
+export type ShortcutStatus = {
+  action: ShortcutAction
+  accelerator: string | null
+  registered: boolean
+  /** Why registration failed (e.g. the accelerator is taken by the OS or another app). */
+  error: string | null
+}
@@ -0,0 +1,38 @@
+/**
+ * Tag domain shared schemas
+ *
+ * Shared by the tags router (main) and the tag chips/autocomplete/sidebar (renderer).
+ * Do not import Electron or Prisma from this file.
+ */
+import { z } from 'zod'
+
+export const TAG_NAME_MAX_LENGTH = 40
+
+export const TagIdSchema = z.string().min(1)
+
+/**
+ * Tag name, normalized to trimmed lower-case with single inner spaces.
+ *
+ * @remarks
+ * Normalizing before the unique constraint makes `Design`, `design ` and `DESIGN` the same tag
+ * without a case-insensitive collation in the database.
+ */
+export const TagNameSchema = z
+  .string()
+  .transform((value) => value.trim().replace(/\s+/g, ' ').toLowerCase())
+  .pipe(z.string().min(1, 'Tag name is required').max(TAG_NAME_MAX_LENGTH))
+
+/**
+ * How a set of tags filters ideas: `all` requires every tag (AND), `any` at least one (OR).
+ */
+export const TagMatchModeSchema = z.enum(['all', 'any'])
+export type TagMatchMode = z.infer<typeof TagMatchModeSchema>
+
+/** Most tags one filter may combine; the tag sidebar stops selection here. */
+export const TAG_FILTER_MAX_TAGS = 20
+
+export const TagFilterSchema = z.object({
+  tagIds: z.array(TagIdSchema).min(1).max(TAG_FILTER_MAX_TAGS),
+  mode: TagMatchModeSchema.default('all'),
+})
+export type TagFilter = z.input<typeof TagFilterSchema>
@@ -0,0 +1,41 @@
+/**
+ * tRPC call inspector shared types
+ *
+ * Records kept by the main-process call inspector (`src/main/trpc/call-inspector.ts`) and the
+ * events its `inspector.calls` subscription emits to the dashboard. Do not import Electron or
+ * Prisma from this file.
+ */
+
+/** Calls kept in the ring buffer; older ones are dropped first. */
+export const CALL_INSPECTOR_CAPACITY = 200
+
+/**
+ * `live` while a subscription is streaming; queries and mutations are recorded once settled.
+ */
+export type TrpcCallStatus = 'live' | 'ok' | 'error'
+
+export type TrpcCallRecord = {
+  /** Increasing per launch; later calls have larger ids. */
+  id: number
+  requestId: string
+  path: string
+  type: 'query' | 'mutation' | 'subscription'
+  startedAt: Date
+  /** Size of the JSON-encoded input; `null` when it cannot be encoded. */
+  inputBytes: number | null
+  /** Until settled, or for subscriptions until the stream closed; `null` while live. */
+  durationMs: number | null
+  status: TrpcCallStatus
+  /** tRPC error code (e.g. `NOT_FOUND`) when `status` is `error`. */
+  errorCode: string | null
+  /** Values delivered by a subscription; `0` for queries and mutations. */
+  events: number
+}
+
+/**
+ * Emitted by `inspector.calls`: a full `reset` on connect, whenever recording is switched on or
+ * off and when the buffer is cleared, then one `upsert` per new or updated call.
+ */
+export type CallInspectorEvent =
+  | { type: 'reset'; enabled: boolean; calls: TrpcCallRecord[] }
+  | { type: 'upsert'; call: TrpcCallRecord }
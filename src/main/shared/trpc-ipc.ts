@@ -0,0 +1,64 @@
+/**
+ * tRPC-over-IPC shared protocol
+ *
+ * Message shapes exchanged between the renderer's `ipcLink` (via preload) and the main-process
+ * IPC adapter, plus the transport switch and runtime URL handoff shared by both sides. Inputs
+ * and results are carried superjson-serialized, exactly as over HTTP. Do not import Electron
+ * from this file.
+ */
+import { z } from 'zod'
+
+/**
+ * Which transport the tRPC client and server use. Selected by `VITE_TRPC_TRANSPORT`
+ * (read by both main and renderer); defaults to `http`.
+ */
+export const TrpcTransportSchema = z.enum(['http', 'ipc'])
+export type TrpcTransport = z.infer<typeof TrpcTransportSchema>
+
+/**
+ * Resolve the configured transport; unknown values fall back to `http`.
+ */
+export const resolveTrpcTransport = (raw: string | undefined): TrpcTransport => {
+  const parsed = TrpcTransportSchema.safeParse(raw)
+  return parsed.success ? parsed.data : 'http'
+}
+
+/**
+ * Renderer argv flag (via `additionalArguments`) carrying the HTTP server's runtime URL, which
+ * can differ from `VITE_TRPC_HTTP_URL` after a port fallback.
+ */
+export const TRPC_HTTP_URL_ARG = '--trpc-http-url='
+
+export const TRPC_IPC_REQUEST_CHANNEL = 'trpc:ipc:request'
+export const TRPC_IPC_RESPONSE_CHANNEL = 'trpc:ipc:response'
+
+/**
+ * Renderer → main. Operations issued in the same tick are sent together as one batch.
+ */
+export const TrpcIpcRequestSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('call'),
+    id: z.number().int(),
+    type: z.enum(['query', 'mutation', 'subscription']),
+    path: z.string().min(1),
+    // Serialized with the router's transformer; deserialized by the adapter.
+    input: z.unknown(),
+  }),
+  z.object({ kind: z.literal('stop'), id: z.number().int() }),
+])
+export type TrpcIpcRequest = z.infer<typeof TrpcIpcRequestSchema>
+
+export const TrpcIpcRequestBatchSchema = z.array(TrpcIpcRequestSchema).min(1).max(100)
+
+/**
+ * Main → renderer, one message per result. Queries and mutations get a single `data` or
+ * `error`; subscriptions get `started`, any number of `data`, then `stopped` or `error`.
+ */
+export const TrpcIpcResponseSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('started'), id: z.number().int() }),
+  z.object({ kind: z.literal('data'), id: z.number().int(), data: z.unknown() }),
+  z.object({ kind: z.literal('stopped'), id: z.number().int() }),
+  // `error` is a serialized tRPC error shape, as produced by the server's `errorFormatter`.
+  z.object({ kind: z.literal('error'), id: z.number().int(), error: z.unknown() }),
+])
+export type TrpcIpcResponse = z.infer<typeof TrpcIpcResponseSchema>
@@ -0,0 +1,104 @@
+/**
+ * Window registry: the one place a window type is declared.
+ *
+ * Every per-type detail derives from this table: `WindowType`, the window factory's
+ * configurations, titles, the tray's "Open …" entries and the renderer's app loader (whose
+ * lazy entries, in `src/renderer/src/windows/window-entries.ts`, must cover every type here).
+ *
+ * Safe to import from both main and renderer; do not import Electron modules here.
+ */
+
+/**
+ * How a window type looks and behaves. Sizing fields other than `width`/`height` only apply
+ * when `resizable` is true.
+ */
+export type WindowDefinition = {
+  /** Shown after the app name in the window title. */
+  title: string
+  /** Initial size. */
+  width: number
+  height: number
+  /** Initial hash route; defaults to `/`. */
+  route?: string
+  /** Whether the user can resize, maximize and enter fullscreen. Defaults to `false`. */
+  resizable?: boolean
+  minWidth?: number
+  minHeight?: number
+  maxWidth?: number
+  maxHeight?: number
+  /** Lock the width/height ratio while resizing (e.g. `16 / 9`). */
+  aspectRatio?: number
+  /** Show the OS title bar and borders. Defaults to `true`; frameless windows drag by CSS region. */
+  frame?: boolean
+  alwaysOnTop?: boolean
+  /**
+   * Where the window opens: `restore` its last bounds (the default) or next to the mouse
+   * `pointer` (e.g. at the tray icon after a tray click), every time it is shown.
+   */
+  placement?: 'restore' | 'pointer'
+  /**
+   * Create the window hidden at startup and hide it instead of closing, so showing it is
+   * instant. Only the default instance is kept alive.
+   */
+  keepAlive?: boolean
+  /** Label of the tray's entry opening this window; types without one are not in the tray. */
+  trayLabel?: string
+}
+
+// Initial sizes of the app windows are 16:9; the dashboard keeps 16:9 when resized. Tray entries
+// follow this order.
+export const WINDOW_REGISTRY = {
+  main: {
+    title: 'Main',
+    width: 1280,
+    height: 720,
+    resizable: true,
+    minWidth: 720,
+    minHeight: 480,
+    trayLabel: 'Open Main Window',
+  },
+  dashboard: {
+    title: 'Dashboard',
+    width: 960,
+    height: 540,
+    resizable: true,
+    minWidth: 640,
+    minHeight: 360,
+    aspectRatio: 16 / 9,
+    trayLabel: 'Open Dashboard',
+  },
+  control: {
+    title: 'Control',
+    width: 640,
+    height: 360,
+    trayLabel: 'Open Control Panel',
+  },
+  capture: {
+    title: 'Quick Capture',
+    width: 480,
+    height: 240,
+    frame: false,
+    alwaysOnTop: true,
+    placement: 'pointer',
+    keepAlive: true,
+    trayLabel: 'Quick Capture',
+  },
+} as const satisfies Record<string, WindowDefinition>
+
+/**
+ * Supported window types
+ */
+export type WindowType = keyof typeof WINDOW_REGISTRY
+
+/**
+ * Every window type, in registry order.
+ */
+export const WINDOW_TYPES = Object.keys(WINDOW_REGISTRY) as [WindowType, ...WindowType[]]
+
+export const isWindowType = (value: unknown): value is WindowType =>
+  typeof value === 'string' && Object.hasOwn(WINDOW_REGISTRY, value)
+
+/**
+ * A window type's definition, widened to {@link WindowDefinition} so optional fields can be read.
+ */
+export const getWindowDefinition = (type: WindowType): WindowDefinition => WINDOW_REGISTRY[type]
@@ -6,39 +6,36 @@
  * - renderer: loads corresponding app components based on window type
  */
 
+import type { WindowDefinition, WindowType } from './window-registry'
+import { getWindowDefinition } from './window-registry'
+
+export type { WindowType } from './window-registry'
+
 /**
- * Supported window types
+ * Instance key of a window type's primary window. Other instances use their own keys (e.g.
+ * `idea:<id>`); a window is identified by its type plus instance key.
  */
-export type WindowType = 'main' | 'dashboard' | 'control'
+export const DEFAULT_INSTANCE_KEY = 'default'
 
 /**
- * Window configuration interface
+ * An open window, as listed by the window factory.
  */
-export interface WindowConfig {
+export type WindowInstanceInfo = {
   type: WindowType
-  width: number
-  height: number
+  instanceKey: string
   title: string
-  route?: string
+  focused: boolean
 }
 
 /**
- * Window dimensions configuration (16:9 aspect ratio)
+ * Window configuration: a registry definition bound to its type, with the full title.
  */
-export const WINDOW_DIMENSIONS = {
-  main: { width: 1280, height: 720 },
-  dashboard: { width: 960, height: 540 },
-  control: { width: 640, height: 360 },
-} as const satisfies Record<WindowType, { width: number; height: number }>
+export interface WindowConfig extends WindowDefinition {
+  type: WindowType
+}
 
 /**
  * Get window title with app name prefix
  */
-export const getWindowTitle = (type: WindowType): string => {
-  const typeMap: Record<WindowType, string> = {
-    main: 'Main',
-    dashboard: 'Dashboard',
-    control: 'Control',
-  }
-  return `${import.meta.env.VITE_APP_NAME} - ${typeMap[type]}`
-}
+export const getWindowTitle = (type: WindowType): string =>
+  `${import.meta.env.VITE_APP_NAME} - ${getWindowDefinition(type).title}`
@@ -0,0 +1,113 @@
+/**
+ * Global keyboard shortcuts.
+ *
+ * Design note:
+ * - Each action in `@shared/shortcuts` is bound to the accelerator in the `shortcuts.bindings`
+ *   setting and registered with `globalShortcut`, so it works while the app is in the
+ *   background.
+ * - Changing the setting re-registers everything at once: the previous accelerators are
+ *   released first, so swapping two actions' shortcuts works.
+ * - `globalShortcut.register` fails silently when another application or the OS owns the
+ *   accelerator; each action's outcome is kept as a `ShortcutStatus` and broadcast on
+ *   {@link shortcutEvents}, so the settings view can show the failure.
+ *
+ * Preconditions:
+ * - Start after `app` is ready and settings are loaded.
+ */
+import { EventEmitter } from 'events'
+import { globalShortcut } from 'electron/main'
+import { SHORTCUT_ACTION_IDS, type ShortcutAction, type ShortcutStatus } from '@shared/shortcuts'
+import { getSetting, onSettingChanged } from './settings'
+import { closeWindow, getWindow, openWindow } from './windows/window-factory'
+import { logger } from './logger'
+
+const log = logger.child('shortcuts')
+
+const toggleWindow = (type: 'dashboard'): void => {
+  const window = getWindow(type)
+  if (window?.isVisible() && window.isFocused()) closeWindow(type)
+  else openWindow(type)
+}
+
+const ACTION_HANDLERS: Record<ShortcutAction, () => void> = {
+  openMain: () => {
+    openWindow('main')
+  },
+  toggleDashboard: () => toggleWindow('dashboard'),
+  quickCapture: () => {
+    openWindow('capture')
+  },
+}
+
+let statuses: ShortcutStatus[] = []
+let registeredAccelerators: string[] = []
+let unsubscribeSettings: (() => void) | null = null
+
+/**
+ * Emits `'change'` with the `ShortcutStatus[]` after every (re-)registration.
+ *
+ * @internal Exposed for the `shortcuts.statuses` subscription.
+ */
+export const shortcutEvents = new EventEmitter()
+// One listener per open settings view; avoid spurious leak warnings.
+shortcutEvents.setMaxListeners(0)
+
+/**
+ * Registration outcome per action, in action order.
+ */
+export function getShortcutStatuses(): ShortcutStatus[] {
+  return statuses.map((status) => ({ ...status }))
+}
+
+const unregisterAll = (): void => {
+  for (const accelerator of registeredAccelerators) globalShortcut.unregister(accelerator)
+  registeredAccelerators = []
+}
+
+const register = (action: ShortcutAction, accelerator: string | null): ShortcutStatus => {
+  if (!accelerator) return { action, accelerator, registered: false, error: null }
+  let error: string | null = null
+  try {
+    if (globalShortcut.register(accelerator, ACTION_HANDLERS[action])) {
+      registeredAccelerators.push(accelerator)
+    } else {
+      error = `${accelerator} is already in use by another application or the system`
+    }
+  } catch (cause) {
+    error = cause instanceof Error ? cause.message : String(cause)
+  }
+  if (error) log.warn(`Could not register the ${action} shortcut`, { accelerator, error })
+  return { action, accelerator, registered: error === null, error }
+}
+
+/**
+ * Release the current shortcuts and register those in the `shortcuts.bindings` setting.
+ */
+export function applyShortcuts(): ShortcutStatus[] {
+  unregisterAll()
+  const bindings = getSetting('shortcuts.bindings')
+  statuses = SHORTCUT_ACTION_IDS.map((action) => register(action, bindings[action]))
+  log.info(`Registered ${registeredAccelerators.length} global shortcut(s)`)
+  shortcutEvents.emit('change', getShortcutStatuses())
+  return getShortcutStatuses()
+}
+
+/**
+ * Register the configured shortcuts and follow setting changes. Idempotent.
+ */
+export function startShortcuts(): void {
+  if (unsubscribeSettings) return
+  unsubscribeSettings = onSettingChanged(({ key }) => {
+    if (key === 'shortcuts.bindings') applyShortcuts()
+  })
+  applyShortcuts()
+}
+
+/**
+ * Release every shortcut this module registered. Idempotent.
+ */
+export function stopShortcuts(): void {
+  unsubscribeSettings?.()
+  unsubscribeSettings = null
+  unregisterAll()
+}
@@ -0,0 +1,85 @@
+/**
+ * Soft-delete scoping for the `Idea` model.
+ *
+ * Design:
+ * - Deleting an idea sets `deletedAt` instead of removing the row; the row lives in the trash
+ *   until restored or purged (see `trash-purge.ts`).
+ * - A Prisma client extension adds `deletedAt: null` to every `Idea` read and update, so existing
+ *   and future queries exclude trashed rows without each call site remembering to.
+ * - Callers opt out by mentioning `deletedAt` in the top-level `where` (e.g. the trash view
+ *   queries `deletedAt: { not: null }`); an explicit filter is never overridden.
+ *
+ * Non-goals: relation filters and `_count` selections are not rewritten; queries that reach
+ * ideas through another model (tags, revisions) must filter on `idea.deletedAt` themselves.
+ * Raw SQL (`$queryRaw`) is likewise untouched.
+ *
+ * Trade-offs: `create`/`upsert` are not scoped, so writes keyed by id still see trashed rows and
+ * cannot silently duplicate them.
+ */
+import type { Prisma, PrismaClient } from '@prisma/client'
+import type { ITXClientDenyList } from '@prisma/client/runtime/library'
+import { prisma } from './prisma'
+import { isIdeaWriteOperation, notifyIdeasChanged } from './idea-changes'
+
+type IdeaWhere = Prisma.IdeaWhereInput | Prisma.IdeaWhereUniqueInput | undefined
+
+const scopeToActive = <W extends IdeaWhere>(where: W): W =>
+  where && 'deletedAt' in where ? where : ({ ...where, deletedAt: null } as W)
+
+/**
+ * Shared Prisma client whose `Idea` queries only see rows that are not in the trash.
+ *
+ * @remarks
+ * Used by main-process consumers (tRPC context, trash purge). Writes to `Idea` are announced via
+ * `idea-changes.ts`. Extended once at module load;
+ * extensions are immutable wrappers, so this shares the connection pool of the base client in
+ * `prisma.ts`. Interactive transactions started from it are scoped as well.
+ *
+ * @example
+ * ```ts
+ * await appPrisma.idea.findMany() // trashed ideas excluded
+ * await appPrisma.idea.findMany({ where: { deletedAt: { not: null } } }) // only the trash
+ * ```
+ */
+export const appPrisma = (prisma as unknown as PrismaClient)
+  .$extends({
+    name: 'ideaSoftDelete',
+    query: {
+      idea: {
+        findMany: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+        findFirst: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+        findFirstOrThrow: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+        findUnique: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+        findUniqueOrThrow: ({ args, query }) =>
+          query({ ...args, where: scopeToActive(args.where) }),
+        count: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+        aggregate: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+        groupBy: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+        update: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+        updateMany: ({ args, query }) => query({ ...args, where: scopeToActive(args.where) }),
+      },
+    },
+  })
+  .$extends({
+    // Announce writes for main-process mirrors of the idea list (see `idea-changes.ts`)
+    name: 'ideaChanges',
+    query: {
+      idea: {
+        $allOperations: async ({ operation, args, query }) => {
+          const result = await query(args)
+          if (isIdeaWriteOperation(operation)) notifyIdeasChanged()
+          return result
+        },
+      },
+    },
+  })
+
+/**
+ * Prisma client type exposed to tRPC procedures (`ctx.prisma`).
+ */
+export type AppPrismaClient = typeof appPrisma
+
+/**
+ * Interactive transaction client handed to `ctx.prisma.$transaction(async (tx) => ...)`.
+ */
+export type AppTransactionClient = Omit<AppPrismaClient, ITXClientDenyList>
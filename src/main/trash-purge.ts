@@ -0,0 +1,81 @@
+/**
+ * Scheduled purge of trashed ideas.
+ *
+ * Design note:
+ * - Goal: ideas moved to the trash are permanently deleted once they have been there longer
+ *   than the retention period, without the user having to empty the trash.
+ * - Retention is the `trash.retentionDays` setting (default 30 days).
+ * - Runs once at startup and hourly; the timer is `unref`'d so it never keeps the process alive
+ *   on its own. A retention change applies from the next run, never immediately, so a value
+ *   passing by while the user edits it cannot delete anything.
+ * - Every purge logs the ids and titles it removed, so an unexpected loss can be traced.
+ *
+ * Side effects:
+ * - Deletes `Idea` rows (tags links and revisions cascade).
+ */
+import { appPrisma } from './soft-delete'
+import { getSetting } from './settings'
+import { logger } from './logger'
+
+const log = logger.child('trash')
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let timer: NodeJS.Timeout | null = null
+
+/**
+ * Retention period for trashed ideas, in days.
+ */
+export function getTrashRetentionDays(): number {
+  return getSetting('trash.retentionDays')
+}
+
+/**
+ * Permanently delete ideas trashed before the retention cutoff.
+ *
+ * @param now - Reference time; defaults to the current time.
+ * @returns Number of ideas removed.
+ */
+export async function purgeExpiredIdeas(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS)
+  const expired = await appPrisma.idea.findMany({
+    where: { deletedAt: { lt: cutoff } },
+    select: { id: true, title: true, deletedAt: true },
+  })
+  if (expired.length === 0) return 0
+
+  // Re-check `deletedAt` so an idea restored since the lookup is not deleted.
+  const { count } = await appPrisma.idea.deleteMany({
+    where: { id: { in: expired.map((idea) => idea.id) }, deletedAt: { lt: cutoff } },
+  })
+  log.info(`Purged ${count} idea(s) trashed before ${cutoff.toISOString()}`, {
+    removed: expired.map((idea) => ({ id: idea.id, title: idea.title })),
+  })
+  return count
+}
+
+const runPurge = (): void => {
+  purgeExpiredIdeas().catch((error: unknown) => {
+    log.error('Purge failed', error)
+  })
+}
+
+/**
+ * Start the purge schedule. Idempotent.
+ */
+export function startTrashPurge(): void {
+  if (timer) return
+  runPurge()
+  timer = setInterval(runPurge, PURGE_INTERVAL_MS)
+  timer.unref()
+}
+
+/**
+ * Stop the purge schedule. Idempotent.
+ */
+export function stopTrashPurge(): void {
+  if (!timer) return
+  clearInterval(timer)
+  timer = null
+}
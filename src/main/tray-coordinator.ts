@@ -0,0 +1,251 @@
+/**
+ * Tray coordinator: keeps the tray menu in step with application state.
+ *
+ * Design note:
+ * - `tray.ts` owns the `Tray` instance; this module owns what its menu shows:
+ *   - the registry's window types, checked while one is open, and every open window instance;
+ *   - the five most recently updated ideas, each opening in its own window;
+ *   - database and tRPC server health;
+ *   - the theme source.
+ * - The menu is rebuilt from a snapshot of that state whenever a source changes: windows
+ *   opening, closing or gaining focus, idea writes, theme changes and health checks.
+ * - Rebuilds are debounced ({@link REBUILD_DEBOUNCE_MS}), so bursts (a batch of writes, focus
+ *   moving across windows) cost one rebuild, and at most one recent-ideas query.
+ * - Database health is polled every {@link HEALTH_CHECK_INTERVAL_MS}; the server's is read at
+ *   rebuild time. While the database is unreachable, recent ideas show as unavailable.
+ * - The tray icon's status follows health: `error` while the database is unreachable or the
+ *   server stopped, `busy` until the first database check settles, `idle` otherwise.
+ *
+ * Execution model:
+ * - Main process only; start after the tray exists. The poll timer is `unref`'d.
+ */
+import { app, Menu } from 'electron/main'
+import { THEME_SOURCE_LABELS, type ThemeSource } from '@shared/appearance'
+import { WINDOW_TYPES, getWindowDefinition } from '@shared/window-registry'
+import { getThemeSource, onThemeSourceChanged, setThemeSource } from './appearance'
+import { onIdeasChanged } from './idea-changes'
+import { ensureDatabaseConnection } from './prisma'
+import { appPrisma } from './soft-delete'
+import { getTrpcTransportStatus } from './trpc/transport'
+import { setTrayMenu, setTrayStatus } from './tray'
+import {
+  focusWindow,
+  listWindows,
+  onWindowsChanged,
+  openIdeaWindow,
+  openWindow,
+} from './windows/window-factory'
+import { logger } from './logger'
+
+const log = logger.child('tray')
+
+const REBUILD_DEBOUNCE_MS = 150
+const HEALTH_CHECK_INTERVAL_MS = 30_000
+const RECENT_IDEAS_COUNT = 5
+const MENU_LABEL_MAX_LENGTH = 40
+
+type RecentIdea = { id: string; title: string }
+
+type DatabaseHealth =
+  { status: 'unknown' } | { status: 'ok'; latencyMs: number } | { status: 'error'; message: string }
+
+// `null` until first loaded, and while the database is unreachable.
+let recentIdeas: RecentIdea[] | null = null
+let recentIdeasStale = true
+let databaseHealth: DatabaseHealth = { status: 'unknown' }
+
+let rebuildTimer: NodeJS.Timeout | null = null
+let healthTimer: NodeJS.Timeout | null = null
+let unsubscribers: Array<() => void> = []
+
+// Menu labels are single lines; long idea titles would widen the whole menu.
+const toMenuLabel = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').trim() || 'Untitled'
+  return line.length > MENU_LABEL_MAX_LENGTH ? `${line.slice(0, MENU_LABEL_MAX_LENGTH - 1)}…` : line
+}
+
+// One entry per window type the registry puts in the tray, checked while an instance is open.
+const buildOpenWindowItems = (): Electron.MenuItemConstructorOptions[] => {
+  const openTypes = new Set(listWindows().map((window) => window.type))
+  return WINDOW_TYPES.flatMap((type) => {
+    const { trayLabel } = getWindowDefinition(type)
+    if (!trayLabel) return []
+    return [
+      {
+        label: trayLabel,
+        type: 'checkbox',
+        checked: openTypes.has(type),
+        click: () => {
+          openWindow(type)
+        },
+      },
+    ]
+  })
+}
+
+// One entry per open window instance; the focused one is checked.
+const buildWindowsSubmenu = (): Electron.MenuItemConstructorOptions[] => {
+  const open = listWindows()
+  if (open.length === 0) return [{ label: 'No Open Windows', enabled: false }]
+  return open.map(({ type, instanceKey, title, focused }) => ({
+    label: toMenuLabel(title),
+    type: 'checkbox',
+    checked: focused,
+    click: () => {
+      focusWindow(type, instanceKey)
+    },
+  }))
+}
+
+const buildRecentIdeasSubmenu = (): Electron.MenuItemConstructorOptions[] => {
+  if (!recentIdeas) return [{ label: 'Unavailable', enabled: false }]
+  if (recentIdeas.length === 0) return [{ label: 'No Ideas Yet', enabled: false }]
+  return recentIdeas.map((idea) => ({
+    label: toMenuLabel(idea.title),
+    click: () => {
+      openIdeaWindow(idea.id, idea.title)
+    },
+  }))
+}
+
+const describeDatabase = (): string => {
+  switch (databaseHealth.status) {
+    case 'unknown':
+      return 'Database: Checking…'
+    case 'ok':
+      return `Database: Connected (${databaseHealth.latencyMs} ms)`
+    case 'error':
+      return 'Database: Unreachable'
+  }
+}
+
+const describeServer = (): string => {
+  const { transport, running, url } = getTrpcTransportStatus()
+  if (!running) return 'Server: Stopped'
+  return transport === 'ipc' ? 'Server: Serving over IPC' : `Server: Listening on ${url}`
+}
+
+const buildAppearanceSubmenu = (): Electron.MenuItemConstructorOptions[] => {
+  const current = getThemeSource()
+  return (Object.keys(THEME_SOURCE_LABELS) as ThemeSource[]).map((source) => ({
+    label: THEME_SOURCE_LABELS[source],
+    type: 'radio',
+    checked: source === current,
+    click: () => {
+      void setThemeSource(source)
+    },
+  }))
+}
+
+/**
+ * Build the tray menu from the current state.
+ */
+export const buildTrayMenu = (): Electron.Menu => {
+  return Menu.buildFromTemplate([
+    ...buildOpenWindowItems(),
+    { label: 'Windows', submenu: buildWindowsSubmenu() },
+    { type: 'separator' },
+    { label: 'Recent Ideas', submenu: buildRecentIdeasSubmenu() },
+    { type: 'separator' },
+    { label: describeDatabase(), enabled: false },
+    { label: describeServer(), enabled: false },
+    { type: 'separator' },
+    { label: 'Appearance', submenu: buildAppearanceSubmenu() },
+    { type: 'separator' },
+    {
+      label: 'Quit',
+      click: () => {
+        app.quit()
+      },
+    },
+  ])
+}
+
+const loadRecentIdeas = async (): Promise<void> => {
+  recentIdeasStale = false
+  try {
+    recentIdeas = await appPrisma.idea.findMany({
+      select: { id: true, title: true },
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+      take: RECENT_IDEAS_COUNT,
+    })
+  } catch (error) {
+    recentIdeas = null
+    log.warn('Failed to load recent ideas for the tray', error)
+  }
+}
+
+// Icon and tooltip: errors first, then work in progress
+const updateTrayStatus = (): void => {
+  if (databaseHealth.status === 'error') setTrayStatus('error', 'Database unreachable')
+  else if (!getTrpcTransportStatus().running) setTrayStatus('error', 'Server stopped')
+  else if (databaseHealth.status === 'unknown') setTrayStatus('busy', 'Checking the database…')
+  else setTrayStatus('idle')
+}
+
+const rebuild = async (): Promise<void> => {
+  rebuildTimer = null
+  if (recentIdeasStale) await loadRecentIdeas()
+  setTrayMenu(buildTrayMenu())
+  updateTrayStatus()
+}
+
+/**
+ * Rebuild the tray menu after {@link REBUILD_DEBOUNCE_MS}; calls within that window coalesce.
+ *
+ * @param options.ideas - Whether recent ideas must be reloaded first.
+ */
+export function scheduleTrayRebuild({ ideas = false }: { ideas?: boolean } = {}): void {
+  if (ideas) recentIdeasStale = true
+  if (rebuildTimer) clearTimeout(rebuildTimer)
+  rebuildTimer = setTimeout(() => {
+    rebuild().catch((error: unknown) => log.error('Failed to rebuild the tray menu', error))
+  }, REBUILD_DEBOUNCE_MS)
+}
+
+const checkDatabaseHealth = async (): Promise<void> => {
+  const start = performance.now()
+  let next: DatabaseHealth
+  try {
+    await ensureDatabaseConnection()
+    next = { status: 'ok', latencyMs: Math.round(performance.now() - start) }
+  } catch (error) {
+    next = { status: 'error', message: error instanceof Error ? error.message : String(error) }
+  }
+  const previous = databaseHealth
+  databaseHealth = next
+  const statusChanged = next.status !== previous.status
+  if (statusChanged && next.status === 'error') log.warn(`Database unreachable: ${next.message}`)
+  if (statusChanged && previous.status === 'error') log.info('Database reachable again')
+  // Recent ideas failed to load while the database was down, or could not load now.
+  scheduleTrayRebuild({ ideas: statusChanged })
+}
+
+/**
+ * Start keeping the tray menu live. Idempotent.
+ */
+export function startTrayCoordinator(): void {
+  if (healthTimer) return
+  unsubscribers = [
+    onWindowsChanged(() => scheduleTrayRebuild()),
+    onThemeSourceChanged(() => scheduleTrayRebuild()),
+    onIdeasChanged(() => scheduleTrayRebuild({ ideas: true })),
+  ]
+  healthTimer = setInterval(() => void checkDatabaseHealth(), HEALTH_CHECK_INTERVAL_MS)
+  healthTimer.unref()
+  updateTrayStatus()
+  void checkDatabaseHealth()
+}
+
+/**
+ * Stop updating the tray menu. Idempotent.
+ */
+export function stopTrayCoordinator(): void {
+  if (!healthTimer) return
+  clearInterval(healthTimer)
+  healthTimer = null
+  if (rebuildTimer) clearTimeout(rebuildTimer)
+  rebuildTimer = null
+  for (const unsubscribe of unsubscribers) unsubscribe()
+  unsubscribers = []
+}
@@ -3,7 +3,7 @@ import { nativeImage } from 'electron/common'
 import { existsSync } from 'fs'
 import { join, resolve, basename } from 'path'
 import { platform } from '@electron-toolkit/utils'
-import { openMainWindow, openDashboardWindow, openControlWindow } from './windows/window-factory'
+import { logger } from './logger'
 
 /**
  * Tray utilities for creating and managing the application status bar icon.
@@ -11,11 +11,12 @@ import { openMainWindow, openDashboardWindow, openControlWindow } from './window
  * @remarks
  * Design: This module exposes a small, explicit API and retains a single `Tray` instance
  * in module scope to prevent it from being garbage-collected by Electron. Icons are
- * resolved per platform and marked as template images on macOS for automatic tinting.
+ * resolved per platform and status ({@link TrayStatus}) and marked as template images on
+ * macOS for automatic tinting.
  *
  * Non-goals: This module does not create, show, or manage application windows; it only
- * concerns the system tray. Dynamic, app-state-driven menu construction belongs to a
- * higher-level coordinator.
+ * concerns the system tray. Dynamic, app-state-driven menu construction belongs to the
+ * coordinator in `tray-coordinator.ts`.
  *
  * Trade-offs: A module-scoped singleton is simple and robust for a tray-first app,
  * foregoing dependency injection for clarity and safety in the main process.
@@ -32,69 +33,69 @@ import { openMainWindow, openDashboardWindow, openControlWindow } from './window
 
 let appTray: Tray | null = null
 
-const getTrayIconPath = (): string => {
+const log = logger.child('tray')
+
+/**
+ * What the tray icon signals: `busy` while the app is working (e.g. checking the database),
+ * `error` while something needs attention (e.g. the database is unreachable).
+ */
+export type TrayStatus = 'idle' | 'busy' | 'error'
+
+let trayStatus: TrayStatus = 'idle'
+
+// Generated by `scripts/gen-tray-assets.mjs` from `tray.svg`, `tray-busy.svg` and `tray-error.svg`:
+// monochrome templates for macOS, tinted PNGs elsewhere (each with an `@2x` sibling).
+const TRAY_ASSETS: Record<TrayStatus, { template: string; tinted: string }> = {
+  idle: { template: 'trayTemplate.png', tinted: 'tray.png' },
+  busy: { template: 'trayBusyTemplate.png', tinted: 'tray-busy.png' },
+  error: { template: 'trayErrorTemplate.png', tinted: 'tray-error.png' },
+}
+
+const DEFAULT_STATUS_DETAILS: Record<TrayStatus, string | null> = {
+  idle: null,
+  busy: 'Working…',
+  error: 'Something went wrong',
+}
+
+const getLogoPath = (fileName: string): string =>
+  app.isPackaged
+    ? join(process.resourcesPath, 'logo', fileName)
+    : resolve('src/renderer/public/logo', fileName)
+
+// Status asset first, then the idle asset, then the app icon (assets may not be generated yet)
+const getTrayIconCandidates = (status: TrayStatus): string[] => {
   if (platform.isMacOS) {
-    // Prefer a dedicated monochrome, transparent tray template if available
-    const packagedTemplate = join(process.resourcesPath, 'logo/trayTemplate.png')
-    const devTemplate = resolve('src/renderer/public/logo/trayTemplate.png')
-    if (app.isPackaged ? existsSync(packagedTemplate) : existsSync(devTemplate)) {
-      return app.isPackaged ? packagedTemplate : devTemplate
-    }
-    return app.isPackaged
-      ? join(process.resourcesPath, 'logo/512x512.png')
-      : resolve('src/renderer/public/logo/512x512.png')
+    return [TRAY_ASSETS[status].template, TRAY_ASSETS.idle.template, '512x512.png']
   }
   if (platform.isWindows) {
-    return app.isPackaged
-      ? join(process.resourcesPath, 'logo/icon-logo.ico')
-      : resolve('src/renderer/public/logo/icon-logo.ico')
+    return [TRAY_ASSETS[status].tinted, TRAY_ASSETS.idle.tinted, 'icon-logo.ico', '256x256.png']
   }
-  return app.isPackaged
-    ? join(process.resourcesPath, 'logo/256x256.png')
-    : resolve('src/renderer/public/logo/256x256.png')
+  return [TRAY_ASSETS[status].tinted, TRAY_ASSETS.idle.tinted, '256x256.png']
 }
 
-const createTrayImage = (): Electron.NativeImage => {
-  const primaryPath = getTrayIconPath()
-  let image = nativeImage.createFromPath(primaryPath)
-
-  // Fall back to alternate sizes if the resolved image path is empty at runtime
-  if (image.isEmpty()) {
-    const fallbackPath = app.isPackaged
-      ? join(process.resourcesPath, 'logo/256x256.png')
-      : resolve('src/renderer/public/logo/256x256.png')
-    image = nativeImage.createFromPath(fallbackPath)
+const createTrayImage = (status: TrayStatus): Electron.NativeImage => {
+  const candidates = getTrayIconCandidates(status).map(getLogoPath)
+  const path =
+    candidates.find((candidate) => existsSync(candidate)) ?? candidates[candidates.length - 1]
+  if (path !== candidates[0]) {
+    log.warn(`Tray icon ${candidates[0]} is missing; falling back to ${path}`)
   }
+  let image = nativeImage.createFromPath(path)
 
   if (platform.isMacOS) {
-    const isTemplateAsset = basename(primaryPath).toLowerCase().includes('traytemplate')
-    image = image.resize({ width: 16, height: 16 })
+    // Template assets are already menu-bar sized (with @2x); only the app icon needs shrinking
+    const isTemplateAsset = basename(path).toLowerCase().includes('template')
+    if (!isTemplateAsset) image = image.resize({ width: 16, height: 16 })
     image.setTemplateImage(isTemplateAsset)
   }
   return image
 }
 
+/**
+ * Minimal menu for the moments before `tray-coordinator.ts` builds the live one.
+ */
 export const buildDefaultTrayMenu = (): Electron.Menu => {
   return Menu.buildFromTemplate([
-    {
-      label: 'Open Main Window',
-      click: () => {
-        openMainWindow()
-      },
-    },
-    {
-      label: 'Open Dashboard',
-      click: () => {
-        openDashboardWindow()
-      },
-    },
-    {
-      label: 'Open Control Panel',
-      click: () => {
-        openControlWindow()
-      },
-    },
-    { type: 'separator' },
     {
       label: 'Quit',
       click: () => {
@@ -129,9 +130,10 @@ export const createAppTray = (menu?: Electron.Menu): Tray => {
     if (menu) appTray.setContextMenu(menu)
     return appTray
   }
-  appTray = new Tray(createTrayImage())
+  appTray = new Tray(createTrayImage(trayStatus))
   appTray.setToolTip(app.getName())
   appTray.setContextMenu(menu ?? buildDefaultTrayMenu())
+  log.info('Tray created')
   return appTray
 }
 
@@ -168,6 +170,34 @@ export const setTrayTooltip = (tooltip: string): void => {
   if (appTray) appTray.setToolTip(tooltip)
 }
 
+/**
+ * Switches the tray icon to the variant for `status` and updates the tooltip to match.
+ *
+ * @param status - What the icon should signal.
+ * @param detail - Shown after the app name in the tooltip; defaults to a generic description of
+ * `status` (none for `idle`).
+ *
+ * @example
+ * ```ts
+ * import { setTrayStatus } from './tray';
+ * setTrayStatus('error', 'Database unreachable');
+ * ```
+ */
+export const setTrayStatus = (status: TrayStatus, detail?: string): void => {
+  const text = detail ?? DEFAULT_STATUS_DETAILS[status]
+  if (appTray) {
+    if (status !== trayStatus) appTray.setImage(createTrayImage(status))
+    appTray.setToolTip(text ? `${app.getName()}: ${text}` : app.getName())
+  }
+  if (status !== trayStatus) log.info(`Tray status ${trayStatus} -> ${status}`, { detail: text })
+  trayStatus = status
+}
+
+/**
+ * Returns the status the tray icon currently signals.
+ */
+export const getTrayStatus = (): TrayStatus => trayStatus
+
 /**
  * Returns the current `Tray` instance, if any.
  *
@@ -0,0 +1,77 @@
+/**
+ * Per-launch shared secret for the local tRPC HTTP server.
+ *
+ * Design note:
+ * - Goal: only this app's renderers may call procedures. The server listens on localhost, which
+ *   any local process or web page can reach, so a bearer token is required on every request.
+ * - The secret is random per launch and never written to disk, argv or the environment;
+ *   renderers obtain it through preload over IPC (`trpc:getAuthToken`), and the handler only
+ *   answers frames loaded from the app's own renderer.
+ * - Queries and mutations send `Authorization: Bearer <secret>`. SSE subscriptions cannot set
+ *   headers (`EventSource`), so they pass `{ token }` as tRPC `connectionParams`, which the
+ *   subscription link serializes into the URL.
+ *
+ * Security: comparisons are constant-time.
+ */
+import { randomBytes, timingSafeEqual } from 'crypto'
+import type { IncomingMessage } from 'http'
+import { ipcMain } from 'electron/main'
+import { is } from '@electron-toolkit/utils'
+
+const AUTH_TOKEN = randomBytes(32).toString('base64url')
+const AUTH_TOKEN_BUFFER = Buffer.from(AUTH_TOKEN)
+
+const BEARER_PREFIX = 'Bearer '
+
+/**
+ * Constant-time check of a presented token against this launch's secret.
+ */
+export function isValidAuthToken(token: string | null | undefined): boolean {
+  if (!token) return false
+  const presented = Buffer.from(token)
+  return (
+    presented.length === AUTH_TOKEN_BUFFER.length && timingSafeEqual(presented, AUTH_TOKEN_BUFFER)
+  )
+}
+
+/**
+ * Extract the token from a request: the `Authorization` bearer header, or for SSE the `token`
+ * field of the `connectionParams` query parameter.
+ */
+export function getRequestAuthToken(req: IncomingMessage, url: URL): string | null {
+  const header = req.headers.authorization
+  if (header?.startsWith(BEARER_PREFIX)) return header.slice(BEARER_PREFIX.length)
+
+  const rawParams = url.searchParams.get('connectionParams')
+  if (!rawParams) return null
+  try {
+    const params: unknown = JSON.parse(rawParams)
+    if (params && typeof params === 'object' && 'token' in params) {
+      return typeof params.token === 'string' ? params.token : null
+    }
+  } catch {}
+  return null
+}
+
+/**
+ * Whether a frame URL belongs to the app's own renderer (dev server or packaged `file://`).
+ */
+export const isAppRendererUrl = (url: string): boolean => {
+  const devUrl = process.env.ELECTRON_RENDERER_URL
+  if (is.dev && devUrl) return url.startsWith(new URL(devUrl).origin)
+  return url.startsWith('file://')
+}
+
+/**
+ * Serve the secret to the app's renderers via `trpc:getAuthToken`. Idempotent.
+ */
+export function setupTrpcAuthIpc(): void {
+  ipcMain.removeHandler('trpc:getAuthToken')
+  ipcMain.handle('trpc:getAuthToken', (event) => {
+    const frameUrl = event.senderFrame?.url ?? ''
+    if (!isAppRendererUrl(frameUrl)) {
+      throw new Error(`Refusing tRPC auth token to ${frameUrl || 'unknown frame'}`)
+    }
+    return AUTH_TOKEN
+  })
+}
@@ -0,0 +1,185 @@
+/**
+ * Ring buffer of recent tRPC calls for the dashboard's call inspector.
+ *
+ * Design note:
+ * - Every procedure is recorded by a middleware on the base procedures (`trpc.ts`), so queries,
+ *   mutations and subscriptions are covered whichever transport carried them. Calls rejected
+ *   by the auth check are not recorded.
+ * - Recording is on in development and behind the `diagnostics.callInspector` setting in
+ *   production; switching it off drops the buffer.
+ * - The inspector's own procedures (`inspector.*`) are not recorded, so watching the buffer
+ *   does not fill it.
+ *
+ * Side effects:
+ * - Subscribes to setting changes at module load.
+ */
+import { EventEmitter } from 'events'
+import { is } from '@electron-toolkit/utils'
+import {
+  CALL_INSPECTOR_CAPACITY,
+  type CallInspectorEvent,
+  type TrpcCallRecord,
+} from '@shared/trpc-inspector'
+import { getSetting, onSettingChanged } from '../settings'
+
+const INSPECTOR_PATH_PREFIX = 'inspector.'
+
+let calls: TrpcCallRecord[] = []
+let nextCallId = 1
+
+/**
+ * Emits `'event'` with a {@link CallInspectorEvent} for every buffer change.
+ *
+ * @internal Exposed for the `inspector.calls` subscription.
+ */
+export const callInspectorEvents = new EventEmitter()
+// One listener per open inspector view; avoid spurious leak warnings.
+callInspectorEvents.setMaxListeners(0)
+
+export function isCallInspectorEnabled(): boolean {
+  return is.dev || getSetting('diagnostics.callInspector')
+}
+
+/**
+ * The current buffer as a `reset` event, oldest call first.
+ */
+export function getCallInspectorSnapshot(): CallInspectorEvent {
+  return { type: 'reset', enabled: isCallInspectorEnabled(), calls: [...calls] }
+}
+
+/**
+ * Drop every recorded call and tell subscribers.
+ */
+export function clearCallInspector(): void {
+  calls = []
+  callInspectorEvents.emit('event', getCallInspectorSnapshot())
+}
+
+onSettingChanged(({ key }) => {
+  if (key !== 'diagnostics.callInspector') return
+  calls = []
+  callInspectorEvents.emit('event', getCallInspectorSnapshot())
+})
+
+// Only calls still in the buffer are announced; it may have been cleared or rotated meanwhile.
+const upsert = (call: TrpcCallRecord): void => {
+  if (!calls.includes(call)) return
+  const event: CallInspectorEvent = { type: 'upsert', call: { ...call } }
+  callInspectorEvents.emit('event', event)
+}
+
+const errorCodeOf = (error: unknown): string =>
+  error && typeof error === 'object' && 'code' in error && typeof error.code === 'string'
+    ? error.code
+    : 'INTERNAL_SERVER_ERROR'
+
+const measureInput = (input: unknown): number | null => {
+  if (input === undefined) return 0
+  try {
+    return Buffer.byteLength(JSON.stringify(input))
+  } catch {
+    // BigInts and cycles cannot be JSON-encoded; the size is unknown rather than wrong.
+    return null
+  }
+}
+
+/**
+ * Handle for one recorded call; `finish` settles it and may be called once.
+ */
+export type InspectedCall = {
+  record: TrpcCallRecord
+  finish: (outcome: { ok: true } | { ok: false; errorCode: string }) => void
+}
+
+/**
+ * Start recording a call, or return `null` when recording is off or the path is excluded.
+ */
+export async function startInspectedCall(call: {
+  requestId: string
+  path: string
+  type: TrpcCallRecord['type']
+  getRawInput: () => Promise<unknown>
+}): Promise<InspectedCall | null> {
+  if (!isCallInspectorEnabled() || call.path.startsWith(INSPECTOR_PATH_PREFIX)) return null
+  const start = performance.now()
+  // Unreadable input fails the procedure itself; here it only goes unmeasured.
+  const input = await call.getRawInput().catch(() => undefined)
+  const record: TrpcCallRecord = {
+    id: nextCallId++,
+    requestId: call.requestId,
+    path: call.path,
+    type: call.type,
+    startedAt: new Date(),
+    inputBytes: measureInput(input),
+    durationMs: null,
+    status: 'live',
+    errorCode: null,
+    events: 0,
+  }
+  let settled = false
+  const finish: InspectedCall['finish'] = (outcome) => {
+    if (settled) return
+    settled = true
+    record.durationMs = Math.round(performance.now() - start)
+    record.status = outcome.ok ? 'ok' : 'error'
+    record.errorCode = outcome.ok ? null : outcome.errorCode
+    upsert(record)
+  }
+  // Queries and mutations enter the buffer once settled; subscriptions immediately, as `live`.
+  const enter = (): void => {
+    calls.push(record)
+    const overflow = calls.length - CALL_INSPECTOR_CAPACITY
+    if (overflow > 0) calls.splice(0, overflow)
+  }
+  if (call.type === 'subscription') {
+    enter()
+    upsert(record)
+    return { record, finish }
+  }
+  return {
+    record,
+    finish: (outcome) => {
+      enter()
+      finish(outcome)
+    },
+  }
+}
+
+/**
+ * Wrap a subscription's async iterable so its events are counted and its end (or failure)
+ * settles the record. `return()` is forwarded immediately so aborts are not delayed.
+ */
+export function inspectSubscription(
+  call: InspectedCall,
+  source: AsyncIterable<unknown>,
+): AsyncIterable<unknown> {
+  return {
+    [Symbol.asyncIterator]: (): AsyncIterator<unknown> => {
+      const iterator = source[Symbol.asyncIterator]()
+      return {
+        next: async () => {
+          try {
+            const step = await iterator.next()
+            if (step.done) {
+              call.finish({ ok: true })
+            } else {
+              call.record.events++
+              upsert(call.record)
+            }
+            return step
+          } catch (error) {
+            call.finish({ ok: false, errorCode: errorCodeOf(error) })
+            throw error
+          }
+        },
+        return: async (value?: unknown) => {
+          call.finish({ ok: true })
+          return (await iterator.return?.(value)) ?? { done: true, value: undefined }
+        },
+      }
+    },
+  }
+}
+
+export const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value
@@ -1,6 +1,7 @@
+import { randomUUID } from 'crypto'
 import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone'
-import { prisma } from '../prisma'
-import type { PrismaClient } from '@prisma/client'
+import { appPrisma, type AppPrismaClient } from '../soft-delete'
+import { getRequestAuthToken, isValidAuthToken } from './auth'
 
 /**
  * Inner context: request-independent resources that are always available to procedures.
@@ -14,9 +15,8 @@ import type { PrismaClient } from '@prisma/client'
  * The inner context is created once and reused across all requests,
  * making it ideal for expensive operations and shared resources.
  */
-export async function createContextInner(): Promise<{ readonly prisma: PrismaClient }> {
-  const prismaClient = prisma as unknown as PrismaClient
-  return { prisma: prismaClient } as const
+export async function createContextInner(): Promise<{ readonly prisma: AppPrismaClient }> {
+  return { prisma: appPrisma } as const
 }
 
 /**
@@ -24,31 +24,42 @@ export async function createContextInner(): Promise<{ readonly prisma: PrismaCli
  *
  * This function creates the context for each individual tRPC request by:
  * 1. Creating the inner context (shared resources)
- * 2. Merging it with request-specific data (headers, IP, user session, etc.)
+ * 2. Merging it with request-specific data (request ID, authentication)
  * 3. Returning the combined context object
  *
- * In Electron, this context can include:
- * - IPC channel information
- * - User preferences from main process
- * - File system access permissions
- * - Electron-specific metadata
+ * The HTTP server already rejects unauthenticated requests with 401; `isAuthenticated` lets
+ * `protectedProcedure` enforce the same rule for any other caller of `createContext`.
  *
- * @param _opts - HTTP context options (currently unused in Electron setup)
+ * `requestId` is fresh per context (one HTTP request, possibly a batch, or one IPC call) and is
+ * carried by the middlewares' log lines so related entries can be correlated.
+ *
+ * @param opts - HTTP context options; omitted for in-process callers, which are trusted
  * @returns Combined context object available to all tRPC procedures
  */
-export async function createContext(
-  _opts?: CreateHTTPContextOptions,
-): Promise<Awaited<ReturnType<typeof createContextInner>>> {
+export async function createContext(opts?: CreateHTTPContextOptions): Promise<
+  Awaited<ReturnType<typeof createContextInner>> & {
+    readonly requestId: string
+    readonly isAuthenticated: boolean
+  }
+> {
   const inner = await createContextInner()
-  return { ...inner }
+  const requestId = randomUUID()
+  if (!opts) return { ...inner, requestId, isAuthenticated: true }
+  const url = new URL(opts.req.url ?? '/', 'http://localhost')
+  const token =
+    getRequestAuthToken(opts.req, url) ??
+    (typeof opts.info.connectionParams?.token === 'string'
+      ? opts.info.connectionParams.token
+      : null)
+  return { ...inner, requestId, isAuthenticated: isValidAuthToken(token) }
 }
 
 /**
  * Type definition for the tRPC context.
  *
  * This type represents the structure of the context object that will be
- * available to all tRPC procedures. It's derived from the inner context
- * since that's where the core shared resources are defined.
+ * available to all tRPC procedures: the inner context's shared resources plus
+ * per-request ID and authentication.
  *
  * Usage example:
  * ```typescript
@@ -59,4 +70,4 @@ export async function createContext(
  *   });
  * ```
  */
-export type TrpcContext = Awaited<ReturnType<typeof createContextInner>>
+export type TrpcContext = Awaited<ReturnType<typeof createContext>>
@@ -0,0 +1,213 @@
+/**
+ * tRPC adapter over Electron IPC (no TCP port).
+ *
+ * Serves `appRouter` to the renderer's `ipcLink` when `VITE_TRPC_TRANSPORT=ipc`.
+ *
+ * @remarks
+ * Protocol (see `@shared/trpc-ipc`):
+ * - Renderers send batches of `call`/`stop` requests on `trpc:ipc:request`; calls in a batch run
+ *   concurrently, like `httpBatchLink` batches over HTTP.
+ * - Results go back to the sending `webContents` on `trpc:ipc:response`, one message each.
+ * - Inputs, outputs and error shapes are serialized with the router's transformer (superjson),
+ *   so the wire format matches the HTTP transport.
+ * - Subscriptions are async iterables; `stop` (or the `webContents` being destroyed) aborts the
+ *   procedure's signal and returns the iterator.
+ *
+ * Security: only frames loaded from the app's own renderer are served. IPC callers are trusted
+ * by construction, so the context is created as authenticated (no HTTP token involved).
+ */
+import { ipcMain, type IpcMainEvent, type WebContents } from 'electron/main'
+import {
+  TRPCError,
+  callTRPCProcedure,
+  getTRPCErrorFromUnknown,
+  getTRPCErrorShape,
+  type TRPCProcedureType,
+} from '@trpc/server'
+import {
+  TRPC_IPC_REQUEST_CHANNEL,
+  TRPC_IPC_RESPONSE_CHANNEL,
+  TrpcIpcRequestBatchSchema,
+  type TrpcIpcRequest,
+  type TrpcIpcResponse,
+} from '@shared/trpc-ipc'
+import { createContext, type TrpcContext } from './context'
+import { appRouter } from './router'
+import { isAppRendererUrl } from './auth'
+import { isLoggedError } from './middlewares'
+import { logger } from '../logger'
+
+const log = logger.child('trpc').child('ipc')
+
+type CallRequest = Extract<TrpcIpcRequest, { kind: 'call' }>
+
+const config = appRouter._def._config
+
+/**
+ * In-flight calls per `webContents` id, keyed by request id.
+ *
+ * @internal
+ */
+const inFlight = new Map<number, Map<number, AbortController>>()
+
+let started = false
+
+const send = (contents: WebContents, message: TrpcIpcResponse): void => {
+  if (!contents.isDestroyed()) contents.send(TRPC_IPC_RESPONSE_CHANNEL, message)
+}
+
+const getCalls = (contents: WebContents): Map<number, AbortController> => {
+  let calls = inFlight.get(contents.id)
+  if (!calls) {
+    calls = new Map()
+    inFlight.set(contents.id, calls)
+    const id = contents.id
+    contents.once('destroyed', () => {
+      for (const controller of inFlight.get(id)?.values() ?? []) controller.abort()
+      inFlight.delete(id)
+    })
+  }
+  return calls
+}
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value
+
+const toErrorMessage = (
+  request: CallRequest,
+  cause: unknown,
+  input: unknown,
+  ctx: TrpcContext | undefined,
+): TrpcIpcResponse => {
+  const error = getTRPCErrorFromUnknown(cause)
+  if (error.code === 'INTERNAL_SERVER_ERROR' && !isLoggedError(error)) {
+    log.error(`Error on path ${request.path}`, { requestId: ctx?.requestId, error })
+  }
+  const shape = getTRPCErrorShape({
+    config,
+    error,
+    type: request.type,
+    path: request.path,
+    input,
+    ctx,
+  })
+  return { kind: 'error', id: request.id, error: config.transformer.output.serialize(shape) }
+}
+
+const streamSubscription = async (
+  contents: WebContents,
+  request: CallRequest,
+  iterable: AsyncIterable<unknown>,
+  signal: AbortSignal,
+): Promise<void> => {
+  const iterator = iterable[Symbol.asyncIterator]()
+  // Race each step against the abort so a generator parked on a timer stops immediately.
+  const aborted = new Promise<'aborted'>((resolve) => {
+    if (signal.aborted) resolve('aborted')
+    signal.addEventListener('abort', () => resolve('aborted'), { once: true })
+  })
+  send(contents, { kind: 'started', id: request.id })
+  try {
+    while (true) {
+      const next = await Promise.race([iterator.next(), aborted])
+      if (next === 'aborted' || next.done) break
+      send(contents, {
+        kind: 'data',
+        id: request.id,
+        data: config.transformer.output.serialize(next.value),
+      })
+    }
+  } finally {
+    void iterator.return?.()
+  }
+  send(contents, { kind: 'stopped', id: request.id })
+}
+
+const handleCall = async (contents: WebContents, request: CallRequest): Promise<void> => {
+  const calls = getCalls(contents)
+  const controller = new AbortController()
+  calls.set(request.id, controller)
+  let input: unknown = undefined
+  let ctx: TrpcContext | undefined
+  try {
+    input = config.transformer.input.deserialize(request.input)
+    ctx = await createContext()
+    const result: unknown = await callTRPCProcedure({
+      router: appRouter,
+      ctx,
+      path: request.path,
+      type: request.type as TRPCProcedureType,
+      getRawInput: async () => input,
+      signal: controller.signal,
+      batchIndex: 0,
+    })
+    if (request.type !== 'subscription') {
+      send(contents, {
+        kind: 'data',
+        id: request.id,
+        data: config.transformer.output.serialize(result),
+      })
+      return
+    }
+    if (!isAsyncIterable(result)) {
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: `Subscription ${request.path} did not return an async iterable`,
+      })
+    }
+    await streamSubscription(contents, request, result, controller.signal)
+  } catch (cause) {
+    send(contents, toErrorMessage(request, cause, input, ctx))
+  } finally {
+    calls.delete(request.id)
+  }
+}
+
+const onRequest = (event: IpcMainEvent, raw: unknown): void => {
+  const frameUrl = event.senderFrame?.url ?? ''
+  if (!isAppRendererUrl(frameUrl)) {
+    log.warn(`Ignoring IPC request from ${frameUrl || 'unknown frame'}`)
+    return
+  }
+  const batch = TrpcIpcRequestBatchSchema.safeParse(raw)
+  if (!batch.success) {
+    log.warn('Ignoring malformed IPC request batch', batch.error.message)
+    return
+  }
+  for (const request of batch.data) {
+    if (request.kind === 'stop') {
+      inFlight.get(event.sender.id)?.get(request.id)?.abort()
+      continue
+    }
+    void handleCall(event.sender, request)
+  }
+}
+
+/**
+ * Start serving `appRouter` over IPC. Idempotent.
+ */
+export function startTrpcIpc(): void {
+  if (started) return
+  ipcMain.on(TRPC_IPC_REQUEST_CHANNEL, onRequest)
+  started = true
+}
+
+/**
+ * Whether calls over IPC are currently served.
+ */
+export function isTrpcIpcStarted(): boolean {
+  return started
+}
+
+/**
+ * Stop serving and abort every in-flight call and subscription. Idempotent.
+ */
+export function stopTrpcIpc(): void {
+  if (!started) return
+  ipcMain.off(TRPC_IPC_REQUEST_CHANNEL, onRequest)
+  for (const calls of inFlight.values()) {
+    for (const controller of calls.values()) controller.abort()
+  }
+  inFlight.clear()
+  started = false
+}
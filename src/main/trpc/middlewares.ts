@@ -0,0 +1,160 @@
+/**
+ * Reusable tRPC middlewares: timing and structured logging, slow-call warnings, rate limits and
+ * concurrency caps.
+ *
+ * Procedures opt in by composition:
+ *
+ * ```ts
+ * search: protectedProcedure
+ *   .use(requestLog)
+ *   .use(rateLimit({ limit: 20, windowMs: 1_000 }))
+ *   .input(IdeaSearchInputSchema)
+ *   .query(...)
+ * ```
+ *
+ * @remarks
+ * - Log entries carry the context's `requestId` (see `context.ts`). Transports skip logging
+ *   errors `requestLog` has logged (see {@link isLoggedError}).
+ * - Limits are tracked per procedure path in process memory, which matches the single local
+ *   client this server has; each factory call owns its own counters.
+ * - Limit violations throw `TOO_MANY_REQUESTS` (HTTP 429) before the procedure runs.
+ * - For subscriptions, `next()` settles once the stream is set up, so timing and concurrency
+ *   cover setup only, not the stream's lifetime.
+ */
+import { TRPCError } from '@trpc/server'
+import { createMiddleware } from './trpc'
+import { logger } from '../logger'
+
+const log = logger.child('trpc')
+
+type TrpcMiddleware = ReturnType<typeof createMiddleware<object>>
+
+/**
+ * Data of the log entry written per call.
+ */
+type CallLogEntry = {
+  requestId: string
+  path: string
+  type: string
+  durationMs: number
+  ok: boolean
+  code?: string
+}
+
+const elapsedMs = (start: number): number => Math.round(performance.now() - start)
+
+// Failures `requestLog` has logged; the transports' error handlers skip them.
+const loggedErrors = new WeakSet<Error>()
+
+/**
+ * Whether {@link requestLog} already logged this error, so it is not logged twice.
+ */
+export const isLoggedError = (error: unknown): boolean =>
+  error instanceof Error && loggedErrors.has(error)
+
+/**
+ * Times every call and logs one entry with the request ID, path, duration and outcome.
+ *
+ * Failures are logged as errors, with the error; successful calls at `debug`, which only
+ * development writes.
+ */
+export const requestLog = createMiddleware(async ({ ctx, path, type, next }) => {
+  const start = performance.now()
+  const result = await next()
+  const entry: CallLogEntry = {
+    requestId: ctx.requestId,
+    path,
+    type,
+    durationMs: elapsedMs(start),
+    ok: result.ok,
+    ...(result.ok ? {} : { code: result.error.code }),
+  }
+  if (result.ok) log.debug(`${path} ok in ${entry.durationMs} ms`, entry)
+  else {
+    loggedErrors.add(result.error)
+    log.error(`${path} failed with ${entry.code} in ${entry.durationMs} ms`, {
+      ...entry,
+      error: result.error,
+    })
+  }
+  return result
+})
+
+/**
+ * Warn when a call takes longer than `thresholdMs` (default 500 ms).
+ */
+export const slowCallWarning = ({
+  thresholdMs = 500,
+}: { thresholdMs?: number } = {}): TrpcMiddleware =>
+  createMiddleware(async ({ ctx, path, next }) => {
+    const start = performance.now()
+    const result = await next()
+    const durationMs = elapsedMs(start)
+    if (durationMs > thresholdMs) {
+      log.warn(`Slow call ${path} took ${durationMs} ms`, {
+        requestId: ctx.requestId,
+        path,
+        durationMs,
+        thresholdMs,
+      })
+    }
+    return result
+  })
+
+/**
+ * Allow at most `limit` calls per procedure within any sliding `windowMs` window.
+ *
+ * @throws TRPCError `TOO_MANY_REQUESTS` with the time until the next slot frees up.
+ */
+export const rateLimit = ({
+  limit,
+  windowMs,
+}: {
+  limit: number
+  windowMs: number
+}): TrpcMiddleware => {
+  // Start times of accepted calls per path, oldest first.
+  const calls = new Map<string, number[]>()
+  return createMiddleware(({ path, next }) => {
+    const now = Date.now()
+    const recent = (calls.get(path) ?? []).filter((at) => now - at < windowMs)
+    if (recent.length >= limit) {
+      calls.set(path, recent)
+      const retryInMs = windowMs - (now - recent[0])
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Rate limit for ${path} exceeded (${limit} per ${windowMs} ms); retry in ${retryInMs} ms`,
+      })
+    }
+    recent.push(now)
+    calls.set(path, recent)
+    return next()
+  })
+}
+
+/**
+ * Allow at most `max` calls of a procedure to run at once; further calls are rejected rather
+ * than queued.
+ *
+ * @throws TRPCError `TOO_MANY_REQUESTS` while the cap is reached.
+ */
+export const concurrencyLimit = ({ max }: { max: number }): TrpcMiddleware => {
+  const active = new Map<string, number>()
+  return createMiddleware(async ({ path, next }) => {
+    const running = active.get(path) ?? 0
+    if (running >= max) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `${path} is already running (${max} at a time)`,
+      })
+    }
+    active.set(path, running + 1)
+    try {
+      return await next()
+    } finally {
+      const remaining = (active.get(path) ?? 1) - 1
+      if (remaining > 0) active.set(path, remaining)
+      else active.delete(path)
+    }
+  })
+}
@@ -0,0 +1,42 @@
+/**
+ * Cursor pagination helpers shared by list-style procedures.
+ *
+ * Every paginated procedure returns the same `{ items, nextCursor }` shape so the renderer can
+ * drive any of them through `useInfiniteQuery` with `getNextPageParam: (p) => p.nextCursor`.
+ */
+
+/**
+ * A single page of results.
+ *
+ * @typeParam T - Item type.
+ * @typeParam C - Cursor type; `null` marks the last page.
+ */
+export type Page<T, C> = {
+  items: T[]
+  nextCursor: C | null
+}
+
+/**
+ * Build a page from rows fetched with `take: limit + 1`.
+ *
+ * @remarks
+ * Fetching one extra row tells us whether another page exists without a separate `count`
+ * query. The extra row is dropped; the cursor is derived from the last returned item.
+ *
+ * @param rows - Rows fetched with a limit of `limit + 1`.
+ * @param limit - Requested page size.
+ * @param getCursor - Maps the last item of the page to the cursor for the next page.
+ * @returns The page, with `nextCursor: null` when `rows` did not overflow `limit`.
+ *
+ * @example
+ * ```ts
+ * const rows = await prisma.idea.findMany({ take: limit + 1, orderBy })
+ * return toPage(rows, limit, (idea) => ({ createdAt: idea.createdAt, id: idea.id }))
+ * ```
+ */
+export function toPage<T, C>(rows: T[], limit: number, getCursor: (last: T) => C): Page<T, C> {
+  const items = rows.length > limit ? rows.slice(0, limit) : rows
+  const last = items[items.length - 1]
+  const nextCursor = rows.length > limit && last !== undefined ? getCursor(last) : null
+  return { items, nextCursor }
+}
@@ -1,8 +1,26 @@
 import { createTRPCRouter } from './trpc'
 import { helloTrpcRouter } from './routers/hello-trpc'
+import { ideasRouter } from './routers/ideas'
+import { tagsRouter } from './routers/tags'
+import { revisionsRouter } from './routers/revisions'
+import { trashRouter } from './routers/trash'
+import { settingsRouter } from './routers/settings'
+import { inspectorRouter } from './routers/inspector'
+import { logsRouter } from './routers/logs'
+import { windowsRouter } from './routers/windows'
+import { shortcutsRouter } from './routers/shortcuts'
 
 export const appRouter = createTRPCRouter({
   helloTrpc: helloTrpcRouter,
+  ideas: ideasRouter,
+  tags: tagsRouter,
+  revisions: revisionsRouter,
+  trash: trashRouter,
+  settings: settingsRouter,
+  inspector: inspectorRouter,
+  logs: logsRouter,
+  windows: windowsRouter,
+  shortcuts: shortcutsRouter,
 })
 
 export type AppRouter = typeof appRouter
@@ -1,8 +1,8 @@
-import { createTRPCRouter, publicProcedure } from '../../trpc'
+import { createTRPCRouter, protectedProcedure, publicProcedure } from '../../trpc'
 import { z } from 'zod'
 
 export const helloTrpcRouter = createTRPCRouter({
-  db: publicProcedure.query(async ({ ctx }) => {
+  db: protectedProcedure.query(async ({ ctx }) => {
     const start = performance.now()
     await ctx.prisma.$queryRaw`SELECT 1`
     const durationMs = Math.round(performance.now() - start)
@@ -0,0 +1,166 @@
+import { TRPCError } from '@trpc/server'
+import type { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  IdeaCreateInputSchema,
+  IdeaIdSchema,
+  IdeaListInputSchema,
+  IdeaSearchInputSchema,
+  IdeaUpdateInputSchema,
+} from '@shared/ideas'
+import type { TagFilterSchema } from '@shared/tags'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import { rateLimit, requestLog, slowCallWarning } from '../../middlewares'
+import { toPage } from '../../pagination'
+import { writeRevision } from '../revisions/snapshot'
+
+const notFound = (id: string): TRPCError =>
+  new TRPCError({ code: 'NOT_FOUND', message: `Idea ${id} not found` })
+
+// Tags are returned alphabetically with every idea so list rows and detail views render chips
+// without a second round-trip.
+const ideaInclude = {
+  tags: { include: { tag: true }, orderBy: { tag: { name: 'asc' } } },
+} satisfies Prisma.IdeaInclude
+
+type IdeaRow = Prisma.IdeaGetPayload<{ include: typeof ideaInclude }>
+
+type IdeaWithTags = Omit<IdeaRow, 'tags'> & { tags: Array<{ id: string; name: string }> }
+
+const toIdea = ({ tags, ...idea }: IdeaRow): IdeaWithTags => ({
+  ...idea,
+  tags: tags.map(({ tag }) => ({ id: tag.id, name: tag.name })),
+})
+
+const tagFilterWhere = (filter: z.output<typeof TagFilterSchema>): Prisma.IdeaWhereInput =>
+  filter.mode === 'any'
+    ? { tags: { some: { tagId: { in: filter.tagIds } } } }
+    : { AND: filter.tagIds.map((tagId) => ({ tags: { some: { tagId } } })) }
+
+// `ts_headline` option strings; the markers are split back out by the renderer.
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`
+const CONTENT_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MaxWords=24, MinWords=8`
+
+type IdeaSearchRow = {
+  id: string
+  title: string
+  createdAt: Date
+  updatedAt: Date
+  rank: number
+  titleSnippet: string
+  contentSnippet: string
+}
+
+const procedure = protectedProcedure.use(requestLog)
+
+export const ideasRouter = createTRPCRouter({
+  list: procedure.input(IdeaListInputSchema.default({})).query(async ({ ctx, input }) => {
+    const { cursor, limit, tags } = input
+    const rows = await ctx.prisma.idea.findMany({
+      where: {
+        AND: [
+          cursor
+            ? {
+                OR: [
+                  { createdAt: { lt: cursor.createdAt } },
+                  { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+                ],
+              }
+            : {},
+          tags ? tagFilterWhere(tags) : {},
+        ],
+      },
+      include: ideaInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    })
+    return toPage(rows.map(toIdea), limit, (idea) => ({ createdAt: idea.createdAt, id: idea.id }))
+  }),
+
+  /**
+   * Ranked full-text search over title and content.
+   *
+   * @remarks
+   * Matches against the generated `searchVector` column (GIN-indexed) using
+   * `websearch_to_tsquery`, so users can type quoted phrases, `or` and `-term` naturally.
+   * Results come back in the same page shape as `list`, with an offset cursor. Raw SQL bypasses
+   * the soft-delete extension, so trashed ideas are excluded explicitly. Search-as-you-type is
+   * capped at 20 calls per second.
+   */
+  search: procedure
+    .use(rateLimit({ limit: 20, windowMs: 1_000 }))
+    .use(slowCallWarning())
+    .input(IdeaSearchInputSchema)
+    .query(async ({ ctx, input }) => {
+      const offset = input.cursor ?? 0
+      const rows = await ctx.prisma.$queryRaw<IdeaSearchRow[]>`
+      SELECT
+        i."id",
+        i."title",
+        i."createdAt",
+        i."updatedAt",
+        ts_rank(i."searchVector", q) AS "rank",
+        ts_headline('english', i."title", q, ${TITLE_HEADLINE_OPTIONS}) AS "titleSnippet",
+        ts_headline('english', coalesce(i."content", ''), q, ${CONTENT_HEADLINE_OPTIONS})
+          AS "contentSnippet"
+      FROM "public"."Idea" AS i, websearch_to_tsquery('english', ${input.query}) AS q
+      WHERE i."searchVector" @@ q AND i."deletedAt" IS NULL
+      ORDER BY "rank" DESC, i."createdAt" DESC, i."id" DESC
+      LIMIT ${input.limit + 1}
+      OFFSET ${offset}
+    `
+      return toPage(rows, input.limit, () => offset + input.limit)
+    }),
+
+  get: procedure.input(z.object({ id: IdeaIdSchema })).query(async ({ ctx, input }) => {
+    const idea = await ctx.prisma.idea.findUnique({ where: { id: input.id }, include: ideaInclude })
+    if (!idea) throw notFound(input.id)
+    return toIdea(idea)
+  }),
+
+  create: procedure.input(IdeaCreateInputSchema).mutation(async ({ ctx, input }) => {
+    return ctx.prisma.$transaction(async (tx) => {
+      const idea = await tx.idea.create({
+        data: { title: input.title, content: input.content },
+        include: ideaInclude,
+      })
+      await writeRevision(tx, idea)
+      return toIdea(idea)
+    })
+  }),
+
+  update: procedure.input(IdeaUpdateInputSchema).mutation(async ({ ctx, input }) => {
+    return ctx.prisma.$transaction(async (tx) => {
+      const existing = await tx.idea.findUnique({ where: { id: input.id } })
+      if (!existing) throw notFound(input.id)
+      const idea = await tx.idea.update({
+        where: { id: input.id },
+        data: input.data,
+        include: ideaInclude,
+      })
+      // Saving without changes must not clutter the history with identical snapshots.
+      if (idea.title !== existing.title || idea.content !== existing.content) {
+        await writeRevision(tx, idea)
+      }
+      return toIdea(idea)
+    })
+  }),
+
+  /**
+   * Move an idea to the trash.
+   *
+   * @remarks
+   * Soft delete: the row keeps its tags and history and can be restored from the trash until
+   * it is purged. Permanent deletion lives on the `trash` router.
+   */
+  delete: procedure.input(z.object({ id: IdeaIdSchema })).mutation(async ({ ctx, input }) => {
+    const { count } = await ctx.prisma.idea.updateMany({
+      where: { id: input.id },
+      data: { deletedAt: new Date() },
+    })
+    if (count === 0) throw notFound(input.id)
+    return { id: input.id } as const
+  }),
+})
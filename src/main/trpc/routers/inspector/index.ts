@@ -0,0 +1,34 @@
+import { on } from 'events'
+import type { CallInspectorEvent } from '@shared/trpc-inspector'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import {
+  callInspectorEvents,
+  clearCallInspector,
+  getCallInspectorSnapshot,
+} from '../../call-inspector'
+
+/**
+ * Call inspector: recent tRPC calls recorded in main (see `call-inspector.ts`). These procedures
+ * are themselves never recorded.
+ */
+export const inspectorRouter = createTRPCRouter({
+  /**
+   * The call buffer: a `reset` snapshot first, then an `upsert` per new or updated call.
+   *
+   * @remarks
+   * Also connects while recording is off; the `reset` then says `enabled: false` and a new one
+   * follows when the `diagnostics.callInspector` setting is switched on.
+   */
+  calls: protectedProcedure.subscription(async function* ({ signal }) {
+    // Listen before taking the snapshot so no call falls between the two.
+    const events = on(callInspectorEvents, 'event', { signal })
+    yield getCallInspectorSnapshot()
+    for await (const [event] of events) {
+      yield event as CallInspectorEvent
+    }
+  }),
+
+  clear: protectedProcedure.mutation(() => {
+    clearCallInspector()
+  }),
+})
@@ -0,0 +1,14 @@
+import { LogTailInputSchema } from '@shared/logs'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import { tailLogs } from '../../../logger'
+
+/**
+ * Main-process log file (see `logger.ts`). Reads are not request-logged, so polling the viewer
+ * does not grow the log it shows.
+ */
+export const logsRouter = createTRPCRouter({
+  /** Most recent entries (oldest first) at or above `minLevel`, optionally within `scope`. */
+  tail: protectedProcedure
+    .input(LogTailInputSchema.default({}))
+    .query(({ input }) => tailLogs(input)),
+})
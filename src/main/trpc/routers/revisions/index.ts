@@ -0,0 +1,86 @@
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import { IdeaIdSchema } from '@shared/ideas'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import { requestLog, slowCallWarning } from '../../middlewares'
+import { diffLines } from './line-diff'
+import { writeRevision } from './snapshot'
+
+const RevisionIdSchema = z.string().min(1)
+
+const notFound = (id: string): TRPCError =>
+  new TRPCError({ code: 'NOT_FOUND', message: `Revision ${id} not found` })
+
+const ideaNotFound = (id: string): TRPCError =>
+  new TRPCError({ code: 'NOT_FOUND', message: `Idea ${id} not found` })
+
+const procedure = protectedProcedure.use(requestLog)
+
+export const revisionsRouter = createTRPCRouter({
+  list: procedure.input(z.object({ ideaId: IdeaIdSchema })).query(async ({ ctx, input }) => {
+    return ctx.prisma.ideaRevision.findMany({
+      where: { ideaId: input.ideaId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    })
+  }),
+
+  /**
+   * Line-level diff from revision `fromId` to revision `toId` of the same idea.
+   *
+   * @remarks
+   * The title is diffed separately from the content so a renamed idea shows as a one-line change
+   * rather than shifting every content line number.
+   */
+  diff: procedure
+    .use(slowCallWarning())
+    .input(z.object({ fromId: RevisionIdSchema, toId: RevisionIdSchema }))
+    .query(async ({ ctx, input }) => {
+      const [from, to] = await Promise.all([
+        ctx.prisma.ideaRevision.findUnique({ where: { id: input.fromId } }),
+        ctx.prisma.ideaRevision.findUnique({ where: { id: input.toId } }),
+      ])
+      if (!from) throw notFound(input.fromId)
+      if (!to) throw notFound(input.toId)
+      if (from.ideaId !== to.ideaId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Revisions belong to different ideas',
+        })
+      }
+      return {
+        from,
+        to,
+        title: diffLines(from.title, to.title),
+        content: diffLines(from.content ?? '', to.content ?? ''),
+      }
+    }),
+
+  /**
+   * Restore an older revision by applying its title/content to the idea.
+   *
+   * @remarks
+   * History is append-only: the restore is recorded as a new revision pointing back at the
+   * source via `restoredFromId`, so it can itself be undone. Ideas in the trash cannot be
+   * changed (`NOT_FOUND`); restore the idea from the trash first.
+   */
+  restore: procedure
+    .input(z.object({ revisionId: RevisionIdSchema }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.prisma.$transaction(async (tx) => {
+        const revision = await tx.ideaRevision.findUnique({ where: { id: input.revisionId } })
+        if (!revision) throw notFound(input.revisionId)
+        // Soft-delete scoped: a trashed idea is not found, as for the other idea procedures
+        const existing = await tx.idea.findUnique({
+          where: { id: revision.ideaId },
+          select: { id: true },
+        })
+        if (!existing) throw ideaNotFound(revision.ideaId)
+        const idea = await tx.idea.update({
+          where: { id: revision.ideaId },
+          data: { title: revision.title, content: revision.content },
+        })
+        await writeRevision(tx, idea, revision.id)
+        return idea
+      })
+    }),
+})
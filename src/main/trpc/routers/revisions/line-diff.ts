@@ -0,0 +1,121 @@
+/**
+ * Line-level diff between two texts.
+ *
+ * @remarks
+ * Design: common leading/trailing lines are trimmed first, then the remaining middle is diffed
+ * with a longest-common-subsequence table. Typical edits touch a few lines, so the table stays
+ * small even for long documents.
+ *
+ * Performance: O(n·m) time and memory over the trimmed middle. Above {@link MAX_LCS_CELLS} the
+ * middle is reported as a block removal followed by a block addition instead, which is still a
+ * correct (if coarse) diff and keeps the main process responsive.
+ */
+
+export type LineDiffOp = {
+  type: 'equal' | 'add' | 'remove'
+  text: string
+  /** 1-based line number in the old text; absent for additions. */
+  oldLine?: number
+  /** 1-based line number in the new text; absent for removals. */
+  newLine?: number
+}
+
+const MAX_LCS_CELLS = 4_000_000
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.split(/\r?\n/))
+
+/**
+ * Diff `before` against `after` line by line.
+ *
+ * @returns Operations in document order; applying the non-`remove` lines yields `after`.
+ *
+ * @example
+ * ```ts
+ * diffLines('a\nb', 'a\nc')
+ * // [equal 'a', remove 'b', add 'c']
+ * ```
+ */
+export function diffLines(before: string, after: string): LineDiffOp[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const ops: LineDiffOp[] = []
+  for (let i = 0; i < start; i++) {
+    ops.push({ type: 'equal', text: a[i] as string, oldLine: i + 1, newLine: i + 1 })
+  }
+  ops.push(...diffMiddle(a, b, start, endA, endB))
+  for (let i = endA, j = endB; i < a.length; i++, j++) {
+    ops.push({ type: 'equal', text: a[i] as string, oldLine: i + 1, newLine: j + 1 })
+  }
+  return ops
+}
+
+function diffMiddle(
+  a: string[],
+  b: string[],
+  start: number,
+  endA: number,
+  endB: number,
+): LineDiffOp[] {
+  const n = endA - start
+  const m = endB - start
+  const ops: LineDiffOp[] = []
+
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) {
+      ops.push({ type: 'remove', text: a[i] as string, oldLine: i + 1 })
+    }
+    for (let j = start; j < endB; j++) {
+      ops.push({ type: 'add', text: b[j] as string, newLine: j + 1 })
+    }
+    return ops
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+  const width = m + 1
+  const lcs = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[start + i] === b[start + j]
+          ? (lcs[(i + 1) * width + j + 1] as number) + 1
+          : Math.max(lcs[(i + 1) * width + j] as number, lcs[i * width + j + 1] as number)
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    const oldIdx = start + i
+    const newIdx = start + j
+    if (i < n && j < m && a[oldIdx] === b[newIdx]) {
+      ops.push({
+        type: 'equal',
+        text: a[oldIdx] as string,
+        oldLine: oldIdx + 1,
+        newLine: newIdx + 1,
+      })
+      i++
+      j++
+    } else if (
+      i < n &&
+      (j === m || (lcs[(i + 1) * width + j] as number) >= (lcs[i * width + j + 1] as number))
+    ) {
+      ops.push({ type: 'remove', text: a[oldIdx] as string, oldLine: oldIdx + 1 })
+      i++
+    } else {
+      ops.push({ type: 'add', text: b[newIdx] as string, newLine: newIdx + 1 })
+      j++
+    }
+  }
+  return ops
+}
@@ -0,0 +1,28 @@
+import type { AppTransactionClient } from '../../../soft-delete'
+
+type RevisionSource = {
+  id: string
+  title: string
+  content: string | null
+}
+
+/**
+ * Append an `IdeaRevision` capturing the idea's current title and content.
+ *
+ * @remarks
+ * Call inside the same transaction as the write that produced `idea`, so the history can never
+ * miss a committed change or record one that rolled back.
+ *
+ * @param tx - Transaction client.
+ * @param idea - The idea as persisted by the enclosing write.
+ * @param restoredFromId - Revision this snapshot restores, when written by a restore.
+ */
+export async function writeRevision(
+  tx: AppTransactionClient,
+  idea: RevisionSource,
+  restoredFromId?: string,
+): Promise<void> {
+  await tx.ideaRevision.create({
+    data: { ideaId: idea.id, title: idea.title, content: idea.content, restoredFromId },
+  })
+}
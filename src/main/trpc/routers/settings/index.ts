@@ -0,0 +1,36 @@
+import { on } from 'events'
+import { z } from 'zod'
+import { SettingKeySchema, SettingSetInputSchema, type SettingChange } from '@shared/settings'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import { requestLog } from '../../middlewares'
+import { getAllSettings, getSetting, setSetting, settingsEvents } from '../../../settings'
+
+const procedure = protectedProcedure.use(requestLog)
+
+export const settingsRouter = createTRPCRouter({
+  getAll: procedure.query(() => getAllSettings()),
+
+  get: procedure
+    .input(z.object({ key: SettingKeySchema }))
+    .query(({ input }) => ({ key: input.key, value: getSetting(input.key) })),
+
+  /** Write one setting; `value` is validated against the key's schema (`BAD_REQUEST` if not). */
+  set: procedure
+    .input(SettingSetInputSchema)
+    .mutation(async ({ input }): Promise<SettingChange> => {
+      await setSetting(input.key, input.value)
+      return input
+    }),
+
+  /**
+   * Every setting change, from any window or from the main process.
+   *
+   * @remarks
+   * Emits changes only; read the initial state with `getAll`.
+   */
+  onChange: procedure.subscription(async function* ({ signal }) {
+    for await (const [change] of on(settingsEvents, 'change', { signal })) {
+      yield change as SettingChange
+    }
+  }),
+})
@@ -0,0 +1,26 @@
+import { on } from 'events'
+import type { ShortcutStatus } from '@shared/shortcuts'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import { requestLog } from '../../middlewares'
+import { applyShortcuts, getShortcutStatuses, shortcutEvents } from '../../../shortcuts'
+
+const procedure = protectedProcedure.use(requestLog)
+
+/**
+ * Global keyboard shortcuts (see `shortcuts.ts`). Bindings are the `shortcuts.bindings` setting,
+ * written through `settings.set`; these procedures report how registering them went.
+ */
+export const shortcutsRouter = createTRPCRouter({
+  /** Registration outcome per action: the current state first, then after each change. */
+  statuses: procedure.subscription(async function* ({ signal }) {
+    // Listen before reading the current state so no change falls between the two.
+    const changes = on(shortcutEvents, 'change', { signal })
+    yield getShortcutStatuses()
+    for await (const [next] of changes) {
+      yield next as ShortcutStatus[]
+    }
+  }),
+
+  /** Register the configured shortcuts again, e.g. after another app released one. */
+  retry: procedure.mutation(() => applyShortcuts()),
+})
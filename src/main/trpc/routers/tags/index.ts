@@ -0,0 +1,160 @@
+import { TRPCError } from '@trpc/server'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { IdeaIdSchema } from '@shared/ideas'
+import { TagIdSchema, TagNameSchema } from '@shared/tags'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import { concurrencyLimit, requestLog } from '../../middlewares'
+
+const notFound = (id: string): TRPCError =>
+  new TRPCError({ code: 'NOT_FOUND', message: `Tag ${id} not found` })
+
+const nameTaken = (name: string): TRPCError =>
+  new TRPCError({ code: 'CONFLICT', message: `Tag "${name}" already exists` })
+
+// A concurrent create or rename took the name between our check and the write
+const isNameClash = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+
+const procedure = protectedProcedure.use(requestLog)
+
+export const tagsRouter = createTRPCRouter({
+  list: procedure.query(async ({ ctx }) => {
+    const tags = await ctx.prisma.tag.findMany({
+      orderBy: { name: 'asc' },
+      // Trashed ideas keep their tag links (so restore is lossless) but do not count towards usage.
+      include: { _count: { select: { ideas: { where: { idea: { deletedAt: null } } } } } },
+    })
+    return tags.map(({ _count, ...tag }) => ({ ...tag, ideaCount: _count.ideas }))
+  }),
+
+  autocomplete: procedure
+    .input(
+      z.object({
+        prefix: z.string().max(40),
+        excludeIds: z.array(TagIdSchema).max(100).default([]),
+        limit: z.number().int().min(1).max(20).default(8),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const prefix = input.prefix.trim().toLowerCase()
+      const tags = await ctx.prisma.tag.findMany({
+        where: {
+          name: { startsWith: prefix },
+          id: { notIn: input.excludeIds },
+        },
+        select: {
+          id: true,
+          name: true,
+          _count: { select: { ideas: { where: { idea: { deletedAt: null } } } } },
+        },
+      })
+      // Most used first, counting active ideas only; Prisma cannot order by a filtered count.
+      return tags
+        .sort((a, b) => b._count.ideas - a._count.ideas || a.name.localeCompare(b.name))
+        .slice(0, input.limit)
+        .map(({ id, name }) => ({ id, name }))
+    }),
+
+  create: procedure.input(z.object({ name: TagNameSchema })).mutation(async ({ ctx, input }) => {
+    const existing = await ctx.prisma.tag.findUnique({ where: { name: input.name } })
+    if (existing) throw nameTaken(input.name)
+    try {
+      return await ctx.prisma.tag.create({ data: { name: input.name } })
+    } catch (error) {
+      if (isNameClash(error)) throw nameTaken(input.name)
+      throw error
+    }
+  }),
+
+  rename: procedure
+    .input(z.object({ id: TagIdSchema, name: TagNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const [tag, clash] = await Promise.all([
+        ctx.prisma.tag.findUnique({ where: { id: input.id } }),
+        ctx.prisma.tag.findUnique({ where: { name: input.name } }),
+      ])
+      if (!tag) throw notFound(input.id)
+      // Renaming onto another tag's name is a merge; make the caller ask for it explicitly.
+      if (clash && clash.id !== tag.id) throw nameTaken(input.name)
+      try {
+        return await ctx.prisma.tag.update({ where: { id: input.id }, data: { name: input.name } })
+      } catch (error) {
+        if (isNameClash(error)) throw nameTaken(input.name)
+        throw error
+      }
+    }),
+
+  /**
+   * Merge `sourceId` into `targetId`: every idea tagged with the source gets the target tag,
+   * then the source tag is deleted.
+   *
+   * @remarks
+   * Runs in a transaction. Ideas already carrying both tags keep a single target link
+   * (`skipDuplicates`); the source's links are removed by the cascading delete. One merge runs
+   * at a time; overlapping calls get `TOO_MANY_REQUESTS`.
+   */
+  merge: procedure
+    .use(concurrencyLimit({ max: 1 }))
+    .input(
+      z
+        .object({ sourceId: TagIdSchema, targetId: TagIdSchema })
+        .refine((v) => v.sourceId !== v.targetId, { message: 'Cannot merge a tag into itself' }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return ctx.prisma.$transaction(async (tx) => {
+        const [source, target] = await Promise.all([
+          tx.tag.findUnique({ where: { id: input.sourceId } }),
+          tx.tag.findUnique({ where: { id: input.targetId } }),
+        ])
+        if (!source) throw notFound(input.sourceId)
+        if (!target) throw notFound(input.targetId)
+
+        const links = await tx.ideaTag.findMany({
+          where: { tagId: source.id },
+          select: { ideaId: true },
+        })
+        await tx.ideaTag.createMany({
+          data: links.map(({ ideaId }) => ({ ideaId, tagId: target.id })),
+          skipDuplicates: true,
+        })
+        await tx.tag.delete({ where: { id: source.id } })
+        return target
+      })
+    }),
+
+  delete: procedure.input(z.object({ id: TagIdSchema })).mutation(async ({ ctx, input }) => {
+    const { count } = await ctx.prisma.tag.deleteMany({ where: { id: input.id } })
+    if (count === 0) throw notFound(input.id)
+    return { id: input.id } as const
+  }),
+
+  /** Tag an idea by name, creating the tag on first use. Idempotent. */
+  attach: procedure
+    .input(z.object({ ideaId: IdeaIdSchema, name: TagNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const idea = await ctx.prisma.idea.findUnique({ where: { id: input.ideaId } })
+      if (!idea) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Idea ${input.ideaId} not found` })
+      }
+      const tag = await ctx.prisma.tag.upsert({
+        where: { name: input.name },
+        create: { name: input.name },
+        update: {},
+      })
+      await ctx.prisma.ideaTag.upsert({
+        where: { ideaId_tagId: { ideaId: idea.id, tagId: tag.id } },
+        create: { ideaId: idea.id, tagId: tag.id },
+        update: {},
+      })
+      return tag
+    }),
+
+  /** Remove a tag from an idea. Idempotent; the tag itself is kept. */
+  detach: procedure
+    .input(z.object({ ideaId: IdeaIdSchema, tagId: TagIdSchema }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.prisma.ideaTag.deleteMany({ where: { ideaId: input.ideaId, tagId: input.tagId } })
+      return { ideaId: input.ideaId, tagId: input.tagId } as const
+    }),
+})
@@ -0,0 +1,74 @@
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import { IdeaIdSchema, TrashListInputSchema } from '@shared/ideas'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import { concurrencyLimit, requestLog } from '../../middlewares'
+import { toPage } from '../../pagination'
+import { getTrashRetentionDays } from '../../../trash-purge'
+
+const notInTrash = (id: string): TRPCError =>
+  new TRPCError({ code: 'NOT_FOUND', message: `Idea ${id} is not in the trash` })
+
+// Mentioning `deletedAt` opts out of the soft-delete scope (see `soft-delete.ts`).
+const inTrash = { deletedAt: { not: null } }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const procedure = protectedProcedure.use(requestLog)
+
+/**
+ * Trash: ideas moved out of the way by `ideas.delete`, kept until restored, deleted here or
+ * purged after the retention period.
+ */
+export const trashRouter = createTRPCRouter({
+  list: procedure.input(TrashListInputSchema.default({})).query(async ({ ctx, input }) => {
+    const { cursor, limit } = input
+    const retentionMs = getTrashRetentionDays() * DAY_MS
+    const rows = await ctx.prisma.idea.findMany({
+      where: {
+        ...inTrash,
+        ...(cursor
+          ? {
+              OR: [
+                { deletedAt: { lt: cursor.deletedAt } },
+                { deletedAt: cursor.deletedAt, id: { lt: cursor.id } },
+              ],
+            }
+          : {}),
+      },
+      select: { id: true, title: true, createdAt: true, deletedAt: true },
+      orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    })
+    const items = rows.flatMap(({ deletedAt, ...idea }) =>
+      deletedAt
+        ? [{ ...idea, deletedAt, purgeAt: new Date(deletedAt.getTime() + retentionMs) }]
+        : [],
+    )
+    return toPage(items, limit, (idea) => ({ deletedAt: idea.deletedAt, id: idea.id }))
+  }),
+
+  restore: procedure.input(z.object({ id: IdeaIdSchema })).mutation(async ({ ctx, input }) => {
+    const { count } = await ctx.prisma.idea.updateMany({
+      where: { id: input.id, ...inTrash },
+      data: { deletedAt: null },
+    })
+    if (count === 0) throw notInTrash(input.id)
+    return { id: input.id } as const
+  }),
+
+  /** Permanently delete a trashed idea; its tag links and revisions cascade. */
+  deletePermanently: procedure
+    .input(z.object({ id: IdeaIdSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.prisma.idea.deleteMany({ where: { id: input.id, ...inTrash } })
+      if (count === 0) throw notInTrash(input.id)
+      return { id: input.id } as const
+    }),
+
+  /** Permanently delete everything in the trash; overlapping calls get `TOO_MANY_REQUESTS`. */
+  empty: procedure.use(concurrencyLimit({ max: 1 })).mutation(async ({ ctx }) => {
+    const { count } = await ctx.prisma.idea.deleteMany({ where: inTrash })
+    return { count } as const
+  }),
+})
@@ -0,0 +1,64 @@
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import { IdeaIdSchema } from '@shared/ideas'
+import type { WindowType } from '@shared/window-types'
+import { WINDOW_TYPES } from '@shared/window-registry'
+import { DEFAULT_INSTANCE_KEY } from '@shared/window-types'
+import { createTRPCRouter, protectedProcedure } from '../../trpc'
+import { requestLog } from '../../middlewares'
+import {
+  closeWindow,
+  focusWindow,
+  listWindows,
+  openIdeaWindow,
+  openWindow,
+} from '../../../windows/window-factory'
+
+const WindowTypeSchema = z.enum(WINDOW_TYPES)
+
+const WindowInstanceInputSchema = z.object({
+  type: WindowTypeSchema,
+  instanceKey: z.string().min(1).default(DEFAULT_INSTANCE_KEY),
+})
+
+const notOpen = (type: WindowType, instanceKey: string): TRPCError =>
+  new TRPCError({ code: 'NOT_FOUND', message: `No ${type} window ${instanceKey} is open` })
+
+const procedure = protectedProcedure.use(requestLog)
+
+/**
+ * Application windows, identified by type plus instance key (see `window-factory.ts`).
+ */
+export const windowsRouter = createTRPCRouter({
+  /** Open windows in opening order, optionally of one type. */
+  list: procedure
+    .input(z.object({ type: WindowTypeSchema.optional() }).default({}))
+    .query(({ input }) => listWindows(input.type)),
+
+  /** Open (or focus) the default instance of a window type. */
+  open: procedure.input(z.object({ type: WindowTypeSchema })).mutation(({ input }) => {
+    openWindow(input.type)
+    return input
+  }),
+
+  /** Open (or focus) a main-window instance showing one idea. */
+  openIdea: procedure.input(z.object({ id: IdeaIdSchema })).mutation(async ({ ctx, input }) => {
+    const idea = await ctx.prisma.idea.findUnique({
+      where: { id: input.id },
+      select: { id: true, title: true },
+    })
+    if (!idea) throw new TRPCError({ code: 'NOT_FOUND', message: `Idea ${input.id} not found` })
+    openIdeaWindow(idea.id, idea.title)
+    return { id: idea.id } as const
+  }),
+
+  focus: procedure.input(WindowInstanceInputSchema).mutation(({ input }) => {
+    if (!focusWindow(input.type, input.instanceKey)) throw notOpen(input.type, input.instanceKey)
+    return input
+  }),
+
+  close: procedure.input(WindowInstanceInputSchema).mutation(({ input }) => {
+    if (!closeWindow(input.type, input.instanceKey)) throw notOpen(input.type, input.instanceKey)
+    return input
+  }),
+})
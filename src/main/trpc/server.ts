@@ -22,6 +22,11 @@ import { createHTTPHandler } from '@trpc/server/adapters/standalone'
 
 import { createContext } from './context'
 import { appRouter } from './router'
+import { getRequestAuthToken, isValidAuthToken } from './auth'
+import { isLoggedError } from './middlewares'
+import { logger } from '../logger'
+
+const log = logger.child('trpc')
 
 /**
  * Node HTTP server instance maintained as module state.
@@ -33,6 +38,21 @@ import { appRouter } from './router'
  */
 let server: http.Server | null = null
 
+/**
+ * Port the server actually bound, which differs from the configured one after an
+ * `EADDRINUSE` fallback. `null` until listening.
+ *
+ * @internal
+ */
+let boundPort: number | null = null
+
+/**
+ * Pending or settled start, so concurrent callers await the same listen.
+ *
+ * @internal
+ */
+let starting: Promise<string> | null = null
+
 /**
  * Parse and validate the tRPC base URL from environment configuration.
  *
@@ -88,6 +108,10 @@ function normalizeEndpointPath(pathname: string): string {
  */
 const TRPC_URL = getTrpcUrl()
 const ALLOWED_ORIGIN_PROD = TRPC_URL.origin
+// electron-vite serves the renderer from this origin in development.
+const ALLOWED_ORIGIN_DEV = process.env.ELECTRON_RENDERER_URL
+  ? new URL(process.env.ELECTRON_RENDERER_URL).origin
+  : null
 const ENDPOINT_PATH = normalizeEndpointPath(TRPC_URL.pathname)
 
 /**
@@ -119,7 +143,8 @@ function getBindConfig(): { host: string; port: number } {
  * Get the canonical HTTP URL for logging and cross-process communication.
  *
  * This URL represents the public endpoint that renderer processes will connect to.
- * It's constructed from the normalized configuration values for consistency.
+ * Once the server is listening it reflects the port actually bound (which may be an ephemeral
+ * fallback); before that it is the configured URL.
  *
  * @returns Full HTTP URL string (e.g., "http://localhost:3001/trpc")
  *
@@ -131,11 +156,19 @@ function getBindConfig(): { host: string; port: number } {
  * ```
  */
 export function getTrpcHttpUrl(): string {
-  const { host, port } = getBindConfig()
+  const { host, port: configuredPort } = getBindConfig()
+  const port = boundPort ?? configuredPort
   const protocol = TRPC_URL.protocol || 'http:'
   return `${protocol}//${host}:${port}${ENDPOINT_PATH}`
 }
 
+/**
+ * Whether the server is currently accepting connections.
+ */
+export function isTrpcServerListening(): boolean {
+  return server?.listening ?? false
+}
+
 /**
  * Start the standalone tRPC HTTP server.
  *
@@ -143,51 +176,53 @@ export function getTrpcHttpUrl(): string {
  * - Idempotent behavior (safe to call multiple times)
  * - Comprehensive CORS support for Electron multi-window scenarios
  * - Strict path filtering for security
+ * - Bearer-token authentication (`auth.ts`); unauthenticated requests get 401, SSE included
  * - URL rewriting for tRPC adapter compatibility
  * - Structured error logging with path context
+ * - Port fallback: if the configured port is taken (`EADDRINUSE`), binds an ephemeral port
+ *   instead; renderers receive the actual URL at runtime (see `getTrpcHttpUrl`)
  *
  * @remarks
  * Server features:
  * - Accepts requests only under the configured endpoint path
  * - Rewrites URLs to strip endpoint prefix (e.g., /trpc/greeting.hello → /greeting.hello)
- * - Implements permissive CORS for development and multi-window support
+ * - Restricts CORS to the app's renderer origins (dev server or `file://`)
  * - Provides detailed error logging for debugging
  *
- * @throws {Error} If server creation fails (port already in use, invalid host, etc.)
+ * @returns Promise resolving with the listening URL once the server accepts connections
+ * @throws {Error} If binding fails for another reason than a taken port (invalid host, EACCES, …)
  *
  * @example
  * ```typescript
- * // Start the server
- * startTrpcServer();
- *
- * // Server is now listening and ready to accept requests
- * const url = getTrpcHttpUrl();
+ * // Start the server and wait until it is listening
+ * const url = await startTrpcServer();
  * console.log(`Server running at: ${url}`);
  * ```
  */
-export function startTrpcServer(): void {
-  if (server) return
+export function startTrpcServer(): Promise<string> {
+  if (starting) return starting
 
   const handler = createHTTPHandler({
     router: appRouter,
     createContext,
-    onError({ error, path }) {
-      console.error(`[tRPC] Error on path ${path ?? '<unknown>'}:`, error)
+    onError({ error, path, ctx }) {
+      if (isLoggedError(error)) return
+      log.error(`Error on path ${path ?? '<unknown>'}`, { requestId: ctx?.requestId, error })
     },
   })
 
   server = http.createServer((req, res) => {
-    // CORS: permissive in development; restricted in production (file:// or configured origin)
+    // CORS: only the app's own renderer origins (the dev server in development, file:// pages
+    // report the "null" origin in production). The auth token is the actual gate; CORS only
+    // keeps other pages from reading responses.
     const requestOrigin = (req.headers.origin as string | undefined) ?? 'null'
-    if (is.dev) {
-      res.setHeader('Access-Control-Allow-Origin', '*')
-    } else {
-      // Allow either the configured origin (if any) or the "null" origin used by file:// pages
-      const allow = requestOrigin === 'null' || requestOrigin === ALLOWED_ORIGIN_PROD
-      res.setHeader('Access-Control-Allow-Origin', allow ? requestOrigin : 'null')
-      res.setHeader('Vary', 'Origin')
-    }
-    res.setHeader('Access-Control-Allow-Headers', 'accept, content-type')
+    const allow =
+      requestOrigin === 'null' ||
+      requestOrigin === ALLOWED_ORIGIN_PROD ||
+      (is.dev && requestOrigin === ALLOWED_ORIGIN_DEV)
+    res.setHeader('Access-Control-Allow-Origin', allow ? requestOrigin : 'null')
+    res.setHeader('Vary', 'Origin')
+    res.setHeader('Access-Control-Allow-Headers', 'accept, authorization, content-type')
     // Allow POST to support httpBatchLink for queries/mutations; GET for SSE and simple queries
     res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS')
     if (req.method === 'OPTIONS') {
@@ -206,6 +241,16 @@ export function startTrpcServer(): void {
       return
     }
 
+    // Reject before any procedure runs, so unauthenticated callers learn nothing about the API.
+    // Preflights above carry no credentials by design and are answered without a check.
+    if (!isValidAuthToken(getRequestAuthToken(req, incomingUrl))) {
+      res.statusCode = 401
+      res.setHeader('Content-Type', 'application/json')
+      res.setHeader('WWW-Authenticate', 'Bearer')
+      res.end(JSON.stringify({ error: 'Unauthorized' }))
+      return
+    }
+
     // Strip the endpoint prefix so the handler receives
     // "/greeting.hello" instead of "/trpc/greeting.hello".
     // This matches how the standalone adapter expects paths to be shaped.
@@ -215,10 +260,40 @@ export function startTrpcServer(): void {
     handler(req, res)
   })
 
+  const httpServer = server
   const { host, port } = getBindConfig()
-  server.listen(port, host, () => {
-    console.warn(`[tRPC] listening at ${getTrpcHttpUrl()}`)
+  starting = new Promise<string>((resolve, reject) => {
+    const onListening = (): void => {
+      httpServer.off('error', onError)
+      httpServer.off('error', onFatal)
+      const address = httpServer.address()
+      boundPort = typeof address === 'object' && address ? address.port : port
+      const url = getTrpcHttpUrl()
+      log.info(`Listening at ${url}`)
+      resolve(url)
+    }
+    const onError = (error: NodeJS.ErrnoException): void => {
+      if (error.code === 'EADDRINUSE') {
+        log.warn(`Port ${port} is in use; falling back to an ephemeral port`)
+        // Port 0 asks the OS for any free port; it cannot be in use, so no further retry.
+        httpServer.once('error', onFatal)
+        httpServer.listen(0, host)
+        return
+      }
+      onFatal(error)
+    }
+    const onFatal = (error: Error): void => {
+      httpServer.off('listening', onListening)
+      log.error('Server failed to start', error)
+      server = null
+      starting = null
+      reject(error)
+    }
+    httpServer.once('listening', onListening)
+    httpServer.once('error', onError)
+    httpServer.listen(port, host)
   })
+  return starting
 }
 
 /**
@@ -247,6 +322,8 @@ export async function stopTrpcServer(): Promise<void> {
   if (!server) return
   await new Promise<void>((resolve) => server?.close(() => resolve()))
   server = null
+  boundPort = null
+  starting = null
 }
 
 // AppRouter type is now exported from shared/trpc.ts for cross-process access
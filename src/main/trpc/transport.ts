@@ -0,0 +1,66 @@
+/**
+ * Transport selection for serving `appRouter` to renderers.
+ *
+ * `VITE_TRPC_TRANSPORT` is the single switch: `http` (default) runs the authenticated localhost
+ * server in `server.ts`; `ipc` serves over Electron IPC via `ipc-adapter.ts` and opens no port.
+ * The renderer reads the same variable to pick its link, so both sides always agree.
+ */
+import { TRPC_HTTP_URL_ARG, resolveTrpcTransport, type TrpcTransport } from '@shared/trpc-ipc'
+import { setupTrpcAuthIpc } from './auth'
+import { isTrpcIpcStarted, startTrpcIpc, stopTrpcIpc } from './ipc-adapter'
+import { getTrpcHttpUrl, isTrpcServerListening, startTrpcServer, stopTrpcServer } from './server'
+
+export const TRPC_TRANSPORT: TrpcTransport = resolveTrpcTransport(
+  import.meta.env.VITE_TRPC_TRANSPORT,
+)
+
+/**
+ * Start the configured transport. Idempotent.
+ *
+ * @remarks
+ * Await before creating windows: over HTTP, the URL handed to renderers (see
+ * {@link getTrpcRendererArguments}) is only final once the server is listening.
+ */
+export async function startTrpcTransport(): Promise<void> {
+  if (TRPC_TRANSPORT === 'ipc') {
+    startTrpcIpc()
+    return
+  }
+  // Renderers fetch the HTTP server's per-launch auth token over IPC
+  setupTrpcAuthIpc()
+  await startTrpcServer()
+}
+
+/**
+ * Extra renderer argv (`webPreferences.additionalArguments`) for the configured transport.
+ *
+ * @remarks
+ * Preload reads the URL synchronously from argv, so the renderer's links can be built at module
+ * load. The URL is not secret; the auth token is handed over separately via IPC.
+ */
+export function getTrpcRendererArguments(): string[] {
+  return TRPC_TRANSPORT === 'http' ? [`${TRPC_HTTP_URL_ARG}${getTrpcHttpUrl()}`] : []
+}
+
+/**
+ * Whether the configured transport is serving, and where (the HTTP URL; `null` over IPC).
+ */
+export function getTrpcTransportStatus(): {
+  transport: TrpcTransport
+  running: boolean
+  url: string | null
+} {
+  if (TRPC_TRANSPORT === 'ipc') return { transport: 'ipc', running: isTrpcIpcStarted(), url: null }
+  return { transport: 'http', running: isTrpcServerListening(), url: getTrpcHttpUrl() }
+}
+
+/**
+ * Stop the configured transport. Idempotent.
+ */
+export async function stopTrpcTransport(): Promise<void> {
+  if (TRPC_TRANSPORT === 'ipc') {
+    stopTrpcIpc()
+    return
+  }
+  await stopTrpcServer()
+}
@@ -1,8 +1,9 @@
-import { initTRPC } from '@trpc/server'
+import { TRPCError, initTRPC } from '@trpc/server'
 import superjson from 'superjson'
 import { ZodError } from 'zod'
 
 import type { TrpcContext as AppTrpcContext } from './context'
+import { inspectSubscription, isAsyncIterable, startInspectedCall } from './call-inspector'
 
 /**
  * Core tRPC instance configuration for the Electron application.
@@ -82,6 +83,36 @@ const t = initTRPC.context<AppTrpcContext>().create({
  */
 export const createTRPCRouter = t.router
 
+/**
+ * Middleware factory bound to the app's context type.
+ *
+ * Reusable middlewares built with it live in `middlewares.ts`; procedures opt in with `.use()`.
+ */
+export const createMiddleware = t.middleware
+
+/**
+ * Records calls for the dashboard's call inspector when recording is on (see
+ * `call-inspector.ts`). Part of both base procedures, so no procedure is missing from the
+ * inspector; protected procedures run it after the auth check, so rejected callers are not
+ * recorded.
+ *
+ * @internal
+ */
+const inspectCall = t.middleware(async ({ ctx, path, type, getRawInput, next }) => {
+  const call = await startInspectedCall({ requestId: ctx.requestId, path, type, getRawInput })
+  if (!call) return next()
+  const result = await next()
+  if (!result.ok) {
+    call.finish({ ok: false, errorCode: result.error.code })
+    return result
+  }
+  if (type === 'subscription' && isAsyncIterable(result.data)) {
+    return { ...result, data: inspectSubscription(call, result.data) }
+  }
+  call.finish({ ok: true })
+  return result
+})
+
 /**
  * Base procedure for public endpoints that don't require authentication.
  *
@@ -99,4 +130,24 @@ export const createTRPCRouter = t.router
  *
  * @see {@link AppTrpcContext} for available context properties
  */
-export const publicProcedure = t.procedure
+export const publicProcedure = t.procedure.use(inspectCall)
+
+/**
+ * Procedure for endpoints that require an authenticated caller.
+ *
+ * Rejects with `UNAUTHORIZED` unless the request carried this launch's auth token (see
+ * `auth.ts`). Use for everything that reads or writes user data.
+ *
+ * @example
+ * ```typescript
+ * export const listProcedure = protectedProcedure.query(({ ctx }) => ctx.prisma.idea.findMany())
+ * ```
+ */
+export const protectedProcedure = t.procedure
+  .use(({ ctx, next }) => {
+    if (!ctx.isAuthenticated) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Missing or invalid tRPC auth token' })
+    }
+    return next({ ctx })
+  })
+  .use(inspectCall)
@@ -0,0 +1,140 @@
+/**
+ * Remember each window type's position and size across launches.
+ *
+ * Design note:
+ * - Bounds are stored per window type in the `windows.bounds` setting, with the display the
+ *   window was on, whenever the window moves, resizes (debounced) or closes. Only a type's
+ *   default instance is tracked; further instances open cascaded from it.
+ * - Restored bounds are clamped to a connected display's work area: the saved display if it is
+ *   still connected, otherwise the display nearest to the saved bounds. A window never reopens
+ *   off-screen or larger than its display after a monitor is unplugged or rearranged.
+ * - The normal (un-maximized) bounds are stored, so a maximized window restores to its size
+ *   before maximizing.
+ * - Saves are queued and run one at a time, each merging into the map the previous one wrote;
+ *   concurrent read-modify-writes (windows closing together on quit) would drop each other's
+ *   bounds. Quitting waits for the queue ({@link flushWindowBounds}).
+ *
+ * Preconditions:
+ * - Use after `app` is ready (`screen` is unavailable before).
+ */
+import { screen, type BaseWindow, type Display, type Rectangle } from 'electron/main'
+import type { WindowBounds } from '@shared/settings'
+import type { WindowType } from '@shared/window-types'
+import { getSetting, setSetting } from '../settings'
+import { logger } from '../logger'
+
+const log = logger.child('windows')
+
+const SAVE_DEBOUNCE_MS = 500
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max)
+
+const findDisplay = (saved: WindowBounds): Display =>
+  screen.getAllDisplays().find((display) => display.id === saved.displayId) ??
+  screen.getDisplayMatching(saved)
+
+/**
+ * Fit `bounds` inside `area`: shrink to the area if larger, then move fully inside it.
+ */
+const clampToArea = (bounds: Rectangle, area: Rectangle): Rectangle => {
+  const width = Math.min(bounds.width, area.width)
+  const height = Math.min(bounds.height, area.height)
+  return {
+    x: clamp(bounds.x, area.x, area.x + area.width - width),
+    y: clamp(bounds.y, area.y, area.y + area.height - height),
+    width,
+    height,
+  }
+}
+
+/**
+ * How a window deviates from its type's saved bounds.
+ */
+export type RestoreAdjustment = {
+  /** Shift right and down, e.g. to cascade further instances of a type. */
+  offset?: number
+  /** Size to use instead of the saved one (windows that cannot be resized keep their size). */
+  size?: { width: number; height: number }
+}
+
+/**
+ * The saved bounds for `type` with `adjustment` applied, clamped to the connected displays, or
+ * `null` if none were saved.
+ */
+export function getRestoredBounds(
+  type: WindowType,
+  adjustment: RestoreAdjustment = {},
+): Rectangle | null {
+  const saved = getSetting('windows.bounds')[type]
+  if (!saved) return null
+  const offset = adjustment.offset ?? 0
+  const { width, height } = adjustment.size ?? saved
+  return clampToArea(
+    { x: saved.x + offset, y: saved.y + offset, width, height },
+    findDisplay(saved).workArea,
+  )
+}
+
+/**
+ * Bounds of the given size next to the mouse pointer (e.g. at the tray icon after a tray click),
+ * kept inside the work area of the display under the pointer.
+ */
+export function getBoundsNearPointer(size: { width: number; height: number }): Rectangle {
+  const pointer = screen.getCursorScreenPoint()
+  const { workArea } = screen.getDisplayNearestPoint(pointer)
+  // Centered horizontally on the pointer, just below it; clamping flips it inside the area
+  return clampToArea(
+    { x: pointer.x - Math.round(size.width / 2), y: pointer.y + 8, ...size },
+    workArea,
+  )
+}
+
+let saveQueue: Promise<void> = Promise.resolve()
+
+const saveBounds = (type: WindowType, window: BaseWindow): void => {
+  if (window.isDestroyed()) return
+  // Read now: the window is gone by the time a queued save runs
+  const bounds = window.getNormalBounds()
+  const entry: WindowBounds = {
+    x: Math.round(bounds.x),
+    y: Math.round(bounds.y),
+    width: Math.round(bounds.width),
+    height: Math.round(bounds.height),
+    displayId: screen.getDisplayMatching(bounds).id,
+  }
+  saveQueue = saveQueue
+    .then(async () => {
+      await setSetting('windows.bounds', { ...getSetting('windows.bounds'), [type]: entry })
+    })
+    .catch((error: unknown) => {
+      log.error(`Failed to save the ${type} window bounds`, error)
+    })
+}
+
+/**
+ * Resolves once every bounds save queued so far has been written.
+ */
+export function flushWindowBounds(): Promise<void> {
+  return saveQueue
+}
+
+/**
+ * Persist `window`'s bounds as those of `type` on move and resize (debounced) and on close.
+ */
+export function trackWindowBounds(type: WindowType, window: BaseWindow): void {
+  let timer: NodeJS.Timeout | null = null
+  const save = (): void => {
+    if (timer) clearTimeout(timer)
+    timer = null
+    saveBounds(type, window)
+  }
+  const scheduleSave = (): void => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(save, SAVE_DEBOUNCE_MS)
+  }
+  // `move`/`resize` rather than `moved`/`resized`: the latter are not emitted on Linux.
+  window.on('move', scheduleSave)
+  window.on('resize', scheduleSave)
+  window.on('close', save)
+}
@@ -1,40 +1,133 @@
-import { BaseWindow, WebContentsView, nativeTheme } from 'electron/main'
+import { EventEmitter } from 'events'
+import { app, BaseWindow, WebContentsView, nativeTheme } from 'electron/main'
 import { join } from 'path'
 import { is } from '@electron-toolkit/utils'
-import type { WindowType, WindowConfig } from '@shared/window-types'
-import { WINDOW_DIMENSIONS, getWindowTitle } from '@shared/window-types'
+import type { WindowType, WindowConfig, WindowInstanceInfo } from '@shared/window-types'
+import { DEFAULT_INSTANCE_KEY, getWindowTitle } from '@shared/window-types'
+import { WINDOW_TYPES, getWindowDefinition } from '@shared/window-registry'
+import { getTrpcRendererArguments } from '../trpc/transport'
+import { logger } from '../logger'
+import { getBoundsNearPointer, getRestoredBounds, trackWindowBounds } from './window-bounds'
+import { addWindowView } from './window-layout'
 
-const windows = new Map<WindowType, BaseWindow>()
+const log = logger.child('windows')
+
+type WindowEntry = {
+  type: WindowType
+  instanceKey: string
+  window: BaseWindow
+  view: WebContentsView
+  keepAlive: boolean
+}
+
+// Keyed by `toWindowKey(type, instanceKey)`, in opening order.
+const windows = new Map<string, WindowEntry>()
+
+// Emits 'change' whenever a window opens, closes, shows, hides or gains focus, and
+// 'all-closed' when the last window that is not kept alive closes.
+const windowEvents = new EventEmitter()
+
+// Kept-alive windows hide on close until the app quits
+let quitting = false
+app.on('before-quit', () => {
+  quitting = true
+})
+
+const toWindowKey = (type: WindowType, instanceKey: string): string => `${type}:${instanceKey}`
+
+// Offset for each further open instance of a type, so new windows do not hide earlier ones.
+const CASCADE_OFFSET = 24
 
 const getPreloadPath = (): string => join(__dirname, '../preload/index.cjs')
 
-const getRendererUrl = (windowType: WindowType): string => {
+const getRendererUrl = (windowType: WindowType, route: string): string => {
   const devUrl = process.env.ELECTRON_RENDERER_URL
   const baseUrl =
     devUrl && is.dev ? devUrl : new URL('../renderer/index.html', `file://${__dirname}/`).toString()
 
   // 通过查询参数指定窗口类型
-  return `${baseUrl}?window=${windowType}#/`
+  return `${baseUrl}?window=${windowType}#${route}`
 }
 
-export const createWindow = (config: WindowConfig): BaseWindow => {
-  const existingWindow = windows.get(config.type)
-  if (existingWindow && !existingWindow.isDestroyed()) {
-    existingWindow.show()
-    existingWindow.focus()
-    return existingWindow
+/**
+ * Which instance of a window type to open, and what it shows.
+ */
+export type WindowInstanceOptions = {
+  /** Identifies the instance within its type; defaults to {@link DEFAULT_INSTANCE_KEY}. */
+  instanceKey?: string
+  /** Initial hash route; defaults to `config.route`, then `/`. */
+  route?: string
+  /** Window title; defaults to `config.title`. */
+  title?: string
+  /** Show the window once loaded; `false` creates it hidden. Defaults to `true`. */
+  show?: boolean
+}
+
+const placeNearPointer = (window: BaseWindow, config: WindowConfig): void => {
+  window.setBounds(getBoundsNearPointer({ width: config.width, height: config.height }))
+}
+
+/**
+ * Open the window identified by `config.type` and `options.instanceKey`, or show and focus it
+ * if it is already open.
+ */
+export const createWindow = (
+  config: WindowConfig,
+  options: WindowInstanceOptions = {},
+): BaseWindow => {
+  const instanceKey = options.instanceKey ?? DEFAULT_INSTANCE_KEY
+  const key = toWindowKey(config.type, instanceKey)
+  const existing = windows.get(key)
+  const show = options.show ?? true
+  if (existing && !existing.window.isDestroyed()) {
+    if (show) {
+      if (config.placement === 'pointer') placeNearPointer(existing.window, config)
+      if (existing.window.isMinimized()) existing.window.restore()
+      existing.window.show()
+      existing.window.focus()
+    }
+    return existing.window
   }
 
+  // Last position (and size, for resizable windows) of this window type, clamped to the
+  // connected displays; pointer-placed windows are positioned whenever shown
+  const resizable = config.resizable ?? false
+  const keepAlive = (config.keepAlive ?? false) && instanceKey === DEFAULT_INSTANCE_KEY
+  const openOfType = listWindowEntries(config.type).length
+  // Cascading is applied before clamping, so a further instance stays on-screen too
+  const restoredBounds =
+    config.placement === 'pointer'
+      ? null
+      : getRestoredBounds(config.type, {
+          offset: openOfType * CASCADE_OFFSET,
+          size: resizable ? undefined : { width: config.width, height: config.height },
+        })
   const window = new BaseWindow({
-    width: config.width,
-    height: config.height,
-    title: config.title,
+    ...(restoredBounds ?? { width: config.width, height: config.height }),
+    title: options.title ?? config.title,
     show: false,
     backgroundColor: nativeTheme.shouldUseDarkColors ? '#121212' : '#ffffff',
-    resizable: false,
+    frame: config.frame ?? true,
+    alwaysOnTop: config.alwaysOnTop ?? false,
+    resizable,
     minimizable: true,
-    maximizable: false,
+    maximizable: resizable,
+    fullscreenable: resizable,
+    ...(resizable
+      ? {
+          minWidth: config.minWidth,
+          minHeight: config.minHeight,
+          maxWidth: config.maxWidth,
+          maxHeight: config.maxHeight,
+        }
+      : {}),
   })
+  if (resizable && config.aspectRatio) window.setAspectRatio(config.aspectRatio)
+  if (config.alwaysOnTop) {
+    // Above other apps' windows and on whichever desktop (or fullscreen space) is active
+    window.setAlwaysOnTop(true, 'floating')
+    window.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true })
+  }
 
   const view = new WebContentsView({
     webPreferences: {
@@ -44,20 +137,23 @@ export const createWindow = (config: WindowConfig): BaseWindow => {
       spellcheck: false,
       devTools: is.dev,
       preload: getPreloadPath(),
+      // Runtime tRPC URL for preload (the server may have fallen back to an ephemeral port)
+      additionalArguments: getTrpcRendererArguments(),
     },
   })
 
-  window.contentView.addChildView(view)
-  const [w, h] = window.getContentSize()
-  view.setBounds({ x: 0, y: 0, width: w, height: h })
-
-  // Window size is fixed, no need to handle resize events
+  // Fills the content area and follows resize, maximize and fullscreen
+  addWindowView(window, view)
 
   // Load the corresponding application type
-  void view.webContents.loadURL(getRendererUrl(config.type))
+  const route = options.route ?? config.route ?? '/'
+  view.webContents.loadURL(getRendererUrl(config.type, route)).catch((error: unknown) => {
+    log.error(`Failed to load the ${key} window`, error)
+  })
 
   view.webContents.once('dom-ready', () => {
-    if (is.dev) {
+    // Not for windows created hidden: their DevTools would pop up on their own
+    if (is.dev && show) {
       try {
         view.webContents.openDevTools({ mode: 'detach' })
       } catch {}
@@ -65,41 +161,180 @@ export const createWindow = (config: WindowConfig): BaseWindow => {
   })
 
   view.webContents.once('did-finish-load', () => {
+    if (!show) return
+    if (config.placement === 'pointer') placeNearPointer(window, config)
     window.show()
   })
 
+  // Other instances (e.g. idea windows) would overwrite the position the type restores to
+  if (config.placement !== 'pointer' && instanceKey === DEFAULT_INSTANCE_KEY) {
+    trackWindowBounds(config.type, window)
+  }
+
+  if (keepAlive) {
+    window.on('close', (event) => {
+      if (quitting) return
+      event.preventDefault()
+      window.hide()
+    })
+  }
+
   window.on('closed', () => {
-    windows.delete(config.type)
+    windows.delete(key)
+    log.debug(`Closed the ${key} window`)
+    windowEvents.emit('change')
+    // Kept-alive windows never close before quitting, so Electron's `window-all-closed` does not
+    // fire while they exist; this is its replacement.
+    if (listWindowEntries().every((entry) => entry.keepAlive)) windowEvents.emit('all-closed')
   })
+  window.on('focus', () => windowEvents.emit('change'))
+  window.on('show', () => windowEvents.emit('change'))
+  window.on('hide', () => windowEvents.emit('change'))
 
-  windows.set(config.type, window)
+  windows.set(key, { type: config.type, instanceKey, window, view, keepAlive })
+  log.debug(`Opened the ${key} window`)
+  windowEvents.emit('change')
   return window
 }
 
-// Predefined window configurations (16:9 aspect ratio)
-export const WindowConfigs: Record<WindowType, WindowConfig> = {
-  main: {
-    type: 'main',
-    ...WINDOW_DIMENSIONS.main,
-    title: getWindowTitle('main'),
-  },
-  dashboard: {
-    type: 'dashboard',
-    ...WINDOW_DIMENSIONS.dashboard,
-    title: getWindowTitle('dashboard'),
-  },
-  control: {
-    type: 'control',
-    ...WINDOW_DIMENSIONS.control,
-    title: getWindowTitle('control'),
-  },
+const toWindowConfig = (type: WindowType): WindowConfig => ({
+  ...getWindowDefinition(type),
+  type,
+  title: getWindowTitle(type),
+})
+
+// Window configurations, derived from the registry (`@shared/window-registry`)
+export const WindowConfigs = Object.fromEntries(
+  WINDOW_TYPES.map((type) => [type, toWindowConfig(type)]),
+) as Record<WindowType, WindowConfig>
+
+/**
+ * Open (or focus) a window of a registered type; its default instance unless
+ * `options.instanceKey` says otherwise.
+ */
+export const openWindow = (type: WindowType, options?: WindowInstanceOptions): BaseWindow =>
+  createWindow(WindowConfigs[type], options)
+
+/**
+ * Show `route` in a window of a registered type (its default instance unless
+ * `options.instanceKey` says otherwise): an open window navigates there and is focused, any other
+ * opens at that route.
+ *
+ * @remarks
+ * Only the URL's hash changes, which is an in-page navigation the renderer's hash router follows
+ * without reloading.
+ */
+export const openWindowAt = (
+  type: WindowType,
+  route: string,
+  options: Omit<WindowInstanceOptions, 'route'> = {},
+): BaseWindow => {
+  const entry = windows.get(toWindowKey(type, options.instanceKey ?? DEFAULT_INSTANCE_KEY))
+  if (entry && !entry.window.isDestroyed()) {
+    entry.view.webContents.loadURL(getRendererUrl(type, route)).catch((error: unknown) => {
+      log.error(`Failed to navigate the ${type} window to ${route}`, error)
+    })
+  }
+  return createWindow(WindowConfigs[type], { ...options, route })
+}
+
+/**
+ * Create the kept-alive window types (`keepAlive` in the registry) hidden, so they show
+ * instantly later. Call once the tRPC transport is up.
+ */
+export const prepareWindows = (): void => {
+  for (const type of WINDOW_TYPES) {
+    if (WindowConfigs[type].keepAlive) createWindow(WindowConfigs[type], { show: false })
+  }
 }
 
-// Convenience methods
-export const openMainWindow = (): BaseWindow => createWindow(WindowConfigs.main)
-export const openDashboardWindow = (): BaseWindow => createWindow(WindowConfigs.dashboard)
-export const openControlWindow = (): BaseWindow => createWindow(WindowConfigs.control)
+/**
+ * Open (or focus) a main-window instance showing one idea, keyed by the idea's id.
+ */
+export const openIdeaWindow = (ideaId: string, ideaTitle?: string): BaseWindow =>
+  createWindow(WindowConfigs.main, {
+    instanceKey: `idea:${ideaId}`,
+    route: `/ideas/${encodeURIComponent(ideaId)}`,
+    title: ideaTitle ? `${WindowConfigs.main.title} - ${ideaTitle}` : undefined,
+  })
+
+function listWindowEntries(type?: WindowType): WindowEntry[] {
+  return [...windows.values()].filter(
+    (entry) => !entry.window.isDestroyed() && (!type || entry.type === type),
+  )
+}
+
+/**
+ * Open windows, optionally of one type, in opening order.
+ */
+export const listWindows = (type?: WindowType): WindowInstanceInfo[] =>
+  listWindowEntries(type)
+    // A hidden kept-alive window is closed as far as the user can tell
+    .filter((entry) => !entry.keepAlive || entry.window.isVisible())
+    .map(({ type, instanceKey, window }) => ({
+      type,
+      instanceKey,
+      title: window.getTitle(),
+      focused: window.isFocused(),
+    }))
+
+export const getWindow = (
+  type: WindowType,
+  instanceKey: string = DEFAULT_INSTANCE_KEY,
+): BaseWindow | null => {
+  const entry = windows.get(toWindowKey(type, instanceKey))
+  return entry && !entry.window.isDestroyed() ? entry.window : null
+}
+
+/**
+ * Show and focus an open window.
+ *
+ * @returns Whether the window was open.
+ */
+export const focusWindow = (
+  type: WindowType,
+  instanceKey: string = DEFAULT_INSTANCE_KEY,
+): boolean => {
+  const window = getWindow(type, instanceKey)
+  if (!window) return false
+  if (window.isMinimized()) window.restore()
+  window.show()
+  window.focus()
+  return true
+}
+
+/**
+ * Close an open window (its bounds are saved as on a user close); kept-alive windows hide.
+ *
+ * @returns Whether the window was open.
+ */
+export const closeWindow = (
+  type: WindowType,
+  instanceKey: string = DEFAULT_INSTANCE_KEY,
+): boolean => {
+  const window = getWindow(type, instanceKey)
+  if (!window) return false
+  window.close()
+  return true
+}
+
+/**
+ * Subscribe to windows opening, closing or gaining focus.
+ *
+ * @returns Unsubscribe function.
+ */
+export const onWindowsChanged = (listener: () => void): (() => void) => {
+  windowEvents.on('change', listener)
+  return () => windowEvents.off('change', listener)
+}
 
-export const getWindow = (type: WindowType): BaseWindow | null => {
-  return windows.get(type) || null
+/**
+ * Subscribe to the last window closing, not counting hidden kept-alive windows (which would keep
+ * Electron's `window-all-closed` from firing).
+ *
+ * @returns Unsubscribe function.
+ */
+export const onAllWindowsClosed = (listener: () => void): (() => void) => {
+  windowEvents.on('all-closed', listener)
+  return () => windowEvents.off('all-closed', listener)
 }
@@ -0,0 +1,73 @@
+/**
+ * Layout of the `WebContentsView`s inside a `BaseWindow`.
+ *
+ * Design note:
+ * - A `BaseWindow` does not size its child views; each view is placed by a layout function of
+ *   the window's content size, re-run whenever that size changes (resize, maximize, fullscreen
+ *   and their reverses).
+ * - Views are tracked per window, so further views (a sidebar, an inspector pane, ...) can be
+ *   added next to the renderer view with their own layout.
+ */
+import type { BaseWindow, Rectangle, Size, WebContentsView } from 'electron/main'
+
+/**
+ * Where a view goes, given the window's current content size.
+ */
+export type ViewLayout = (content: Size) => Rectangle
+
+type ViewSlot = { view: WebContentsView; layout: ViewLayout }
+
+/** Fill the whole content area. */
+export const fillContent: ViewLayout = ({ width, height }) => ({ x: 0, y: 0, width, height })
+
+const slotsByWindow = new WeakMap<BaseWindow, ViewSlot[]>()
+
+/**
+ * Place every view of `window` according to its layout.
+ */
+export function layoutWindowViews(window: BaseWindow): void {
+  if (window.isDestroyed()) return
+  const [width, height] = window.getContentSize()
+  for (const { view, layout } of slotsByWindow.get(window) ?? []) {
+    view.setBounds(layout({ width, height }))
+  }
+}
+
+/**
+ * Add `view` to `window` (on top of earlier views) and keep it laid out by `layout`.
+ */
+export function addWindowView(
+  window: BaseWindow,
+  view: WebContentsView,
+  layout: ViewLayout = fillContent,
+): void {
+  let slots = slotsByWindow.get(window)
+  if (!slots) {
+    slots = []
+    slotsByWindow.set(window, slots)
+    const relayout = (): void => layoutWindowViews(window)
+    // `resize` alone misses some maximize/fullscreen transitions on some platforms.
+    window.on('resize', relayout)
+    window.on('maximize', relayout)
+    window.on('unmaximize', relayout)
+    window.on('enter-full-screen', relayout)
+    window.on('leave-full-screen', relayout)
+    window.on('restore', relayout)
+  }
+  slots.push({ view, layout })
+  window.contentView.addChildView(view)
+  layoutWindowViews(window)
+}
+
+/**
+ * Remove `view` from `window`; the remaining views keep their layouts.
+ */
+export function removeWindowView(window: BaseWindow, view: WebContentsView): void {
+  const slots = slotsByWindow.get(window)
+  if (!slots) return
+  slotsByWindow.set(
+    window,
+    slots.filter((slot) => slot.view !== view),
+  )
+  if (!window.isDestroyed()) window.contentView.removeChildView(view)
+}
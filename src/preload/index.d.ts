@@ -11,7 +11,8 @@
  */
 
 import type { ElectronAPI } from '@electron-toolkit/preload';
-import type { AppearanceSnapshot } from '@shared/appearance';
+import type { AppearanceSnapshot, ThemeSource } from '@shared/appearance';
+import type { TrpcIpcRequest, TrpcIpcResponse } from '@shared/trpc-ipc';
 
 declare global {
   interface Window {
@@ -45,10 +46,23 @@ declare global {
     xAPI: ElectronAPI & {
       appearance: {
         get: () => Promise<AppearanceSnapshot>;
+        /** Apply and persist a theme source; resolves with the resulting snapshot. */
+        setThemeSource: (source: ThemeSource) => Promise<AppearanceSnapshot>;
         onUpdated: (
           callback: (snapshot: AppearanceSnapshot) => void
         ) => () => void;
       };
+      trpc: {
+        /** Actual tRPC server URL chosen at runtime, or `null` with the IPC transport. */
+        httpUrl: string | null;
+        /** Per-launch secret required by the local tRPC server. */
+        getAuthToken: () => Promise<string>;
+        /** Raw tRPC-over-IPC channel used by `ipcLink`. */
+        ipc: {
+          send: (batch: TrpcIpcRequest[]) => void;
+          onMessage: (callback: (message: TrpcIpcResponse) => void) => () => void;
+        };
+      };
     };
   }
 }
\ No newline at end of file
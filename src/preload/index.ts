@@ -15,7 +15,21 @@
 
 import { electronAPI } from '@electron-toolkit/preload'
 import { contextBridge } from 'electron'
-import { AppearanceSnapshotSchema, type AppearanceSnapshot } from '@shared/appearance'
+import { z } from 'zod'
+import {
+  TRPC_HTTP_URL_ARG,
+  TRPC_IPC_REQUEST_CHANNEL,
+  TRPC_IPC_RESPONSE_CHANNEL,
+  TrpcIpcResponseSchema,
+  type TrpcIpcRequest,
+  type TrpcIpcResponse,
+} from '@shared/trpc-ipc'
+import {
+  AppearanceSnapshotSchema,
+  ThemeSourceSchema,
+  type AppearanceSnapshot,
+  type ThemeSource,
+} from '@shared/appearance'
 
 /**
  * Extended Electron API combining standard functionality with custom features.
@@ -39,6 +53,12 @@ import { AppearanceSnapshotSchema, type AppearanceSnapshot } from '@shared/appea
  * Extends the base electronAPI from @electron-toolkit/preload. All methods
  * are validated and sanitized before exposure to the renderer process.
  */
+// Runtime tRPC server URL from main (HTTP transport only); read once, synchronously, so the
+// renderer can build its links at module load.
+const trpcHttpUrl =
+  process.argv.find((arg) => arg.startsWith(TRPC_HTTP_URL_ARG))?.slice(TRPC_HTTP_URL_ARG.length) ??
+  null
+
 const xAPI = {
   ...electronAPI,
   appearance: {
@@ -46,6 +66,13 @@ const xAPI = {
       const raw: unknown = await electronAPI.ipcRenderer.invoke('appearance:get')
       return AppearanceSnapshotSchema.parse(raw)
     },
+    setThemeSource: async (source: ThemeSource): Promise<AppearanceSnapshot> => {
+      const raw: unknown = await electronAPI.ipcRenderer.invoke(
+        'appearance:setThemeSource',
+        ThemeSourceSchema.parse(source),
+      )
+      return AppearanceSnapshotSchema.parse(raw)
+    },
     onUpdated: (callback: (snapshot: AppearanceSnapshot) => void): (() => void) => {
       const listener = (_: unknown, raw: unknown): void => {
         const snap = AppearanceSnapshotSchema.safeParse(raw)
@@ -55,6 +82,29 @@ const xAPI = {
       return () => electronAPI.ipcRenderer.removeListener('appearance:updated', listener)
     },
   },
+  trpc: {
+    /** Actual tRPC server URL, or `null` when not provided (IPC transport). */
+    httpUrl: trpcHttpUrl,
+    /** Per-launch secret the tRPC links attach to every request (see `src/main/trpc/auth.ts`). */
+    getAuthToken: async (): Promise<string> => {
+      const raw: unknown = await electronAPI.ipcRenderer.invoke('trpc:getAuthToken')
+      return z.string().min(1).parse(raw)
+    },
+    /** Raw channel for the renderer's `ipcLink` (used when `VITE_TRPC_TRANSPORT=ipc`). */
+    ipc: {
+      send: (batch: TrpcIpcRequest[]): void => {
+        electronAPI.ipcRenderer.send(TRPC_IPC_REQUEST_CHANNEL, batch)
+      },
+      onMessage: (callback: (message: TrpcIpcResponse) => void): (() => void) => {
+        const listener = (_: unknown, raw: unknown): void => {
+          const message = TrpcIpcResponseSchema.safeParse(raw)
+          if (message.success) callback(message.data)
+        }
+        electronAPI.ipcRenderer.on(TRPC_IPC_RESPONSE_CHANNEL, listener)
+        return () => electronAPI.ipcRenderer.removeListener(TRPC_IPC_RESPONSE_CHANNEL, listener)
+      },
+    },
+  },
 }
 
 /**
@@ -3,7 +3,8 @@ import ReactDOM from 'react-dom/client'
 
 import { QueryClientProvider } from '@tanstack/react-query'
 import { queryClient } from '@/lib/trpc'
-import type { WindowType } from '@shared/window-types'
+import { isWindowType } from '@shared/window-registry'
+import { WINDOW_ENTRIES } from '@/windows/window-entries'
 
 import './src/styles/globals.css'
 function applyDarkClass(shouldUseDark: boolean): void {
@@ -32,7 +33,8 @@ void (async () => {
 
 // Get window type from URL parameters
 const urlParams = new URLSearchParams(window.location.search)
-const windowType = (urlParams.get('window') as WindowType) || 'main'
+const requestedType = urlParams.get('window')
+const windowType = isWindowType(requestedType) ? requestedType : 'main'
 
 // Dynamically import corresponding app component
 const AppLoader = (): React.JSX.Element => {
@@ -43,18 +45,7 @@ const AppLoader = (): React.JSX.Element => {
   React.useEffect(() => {
     const loadApp = async (): Promise<void> => {
       try {
-        let module: { default: React.ComponentType }
-        switch (windowType) {
-          case 'dashboard':
-            module = await import('./src/windows/dashboard-app')
-            break
-          case 'control':
-            module = await import('./src/windows/control-app')
-            break
-          default:
-            module = await import('./src/windows/main-app')
-            break
-        }
+        const module = await WINDOW_ENTRIES[windowType]()
         setAppComponent(() => module.default)
       } catch (err) {
         console.error('Failed to load app component:', err)
@@ -0,0 +1,25 @@
+import React from 'react'
+import type { AppearanceSnapshot } from '@shared/appearance'
+
+/**
+ * Current appearance snapshot from the main process, kept live via `appearance:updated`.
+ *
+ * @returns The snapshot, or `null` until the initial fetch resolves.
+ */
+export const useAppearance = (): AppearanceSnapshot | null => {
+  const [snapshot, setSnapshot] = React.useState<AppearanceSnapshot | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+    void window.xAPI.appearance.get().then((snap) => {
+      if (active) setSnapshot(snap)
+    })
+    const unsubscribe = window.xAPI.appearance.onUpdated(setSnapshot)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  return snapshot
+}
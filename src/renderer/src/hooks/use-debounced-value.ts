@@ -0,0 +1,28 @@
+import React from 'react'
+
+/**
+ * Returns `value` once it has stopped changing for `delayMs`.
+ *
+ * @remarks
+ * Each change restarts the timer, so rapid keystrokes produce a single update after the user
+ * pauses. The first render returns `value` immediately.
+ *
+ * @param value - Source value, typically controlled input state.
+ * @param delayMs - Quiet period before the value propagates.
+ * @returns The debounced value.
+ *
+ * @example
+ * ```tsx
+ * const debouncedQuery = useDebouncedValue(query, 250)
+ * ```
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debounced
+}
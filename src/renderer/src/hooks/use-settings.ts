@@ -0,0 +1,54 @@
+import React from 'react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import {
+  toSettingChange,
+  type SettingKey,
+  type SettingValue,
+  type SettingsSnapshot,
+} from '@shared/settings'
+import { queryClient, trpc, trpcClient } from '@/lib/trpc'
+
+/**
+ * All settings, kept live by the `settings.onChange` subscription.
+ *
+ * @remarks
+ * Changes made in any window (or by the main process) are written straight into the
+ * `settings.getAll` query cache, so every component reading settings re-renders without a
+ * refetch.
+ *
+ * @returns The settings snapshot (undefined while loading), the query error, the live-update
+ * subscription's error (changes from elsewhere are missed while set), and a typed setter.
+ */
+export const useSettings = (): {
+  settings: SettingsSnapshot | undefined
+  error: { message: string } | null
+  subscriptionError: { message: string } | null
+  setSetting: <K extends SettingKey>(key: K, value: SettingValue<K>) => void
+  setError: { message: string } | null
+} => {
+  const { data: settings, error } = useQuery(trpc.settings.getAll.queryOptions())
+  const mutation = useMutation(trpc.settings.set.mutationOptions())
+  const [subscriptionError, setSubscriptionError] = React.useState<{ message: string } | null>(null)
+
+  React.useEffect(() => {
+    const subscription = trpcClient.settings.onChange.subscribe(undefined, {
+      onData: ({ key, value }) => {
+        setSubscriptionError(null)
+        queryClient.setQueryData(trpc.settings.getAll.queryKey(), (previous) =>
+          previous ? { ...previous, [key]: value } : previous,
+        )
+      },
+      onError: (err) => setSubscriptionError(err),
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  const { mutate } = mutation
+  const setSetting = React.useCallback(
+    <K extends SettingKey>(key: K, value: SettingValue<K>): void =>
+      mutate(toSettingChange(key, value)),
+    [mutate],
+  )
+
+  return { settings, error, subscriptionError, setSetting, setError: mutation.error }
+}
@@ -0,0 +1,87 @@
+import type React from 'react'
+import { normalizeAccelerator } from '@shared/shortcuts'
+
+export const isMacPlatform = (): boolean => /mac/i.test(navigator.userAgent)
+
+// `KeyboardEvent.code` values whose key name differs in Electron accelerators
+const CODE_KEYS: Record<string, string> = {
+  Space: 'Space',
+  Enter: 'Return',
+  NumpadEnter: 'Enter',
+  Tab: 'Tab',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Insert: 'Insert',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+  NumpadAdd: 'numadd',
+  NumpadSubtract: 'numsub',
+  NumpadMultiply: 'nummult',
+  NumpadDivide: 'numdiv',
+  NumpadDecimal: 'numdec',
+}
+
+const keyFromCode = (code: string): string | null => {
+  if (code in CODE_KEYS) return CODE_KEYS[code]
+  const match = /^(?:Key([A-Z])|Digit([0-9])|Numpad([0-9])|(F[0-9]{1,2}))$/.exec(code)
+  if (!match) return null
+  const [, letter, digit, numpadDigit, functionKey] = match
+  return letter ?? digit ?? (numpadDigit ? `num${numpadDigit}` : functionKey)
+}
+
+/**
+ * The Electron accelerator for a key press, or `null` while only modifiers are held or the key
+ * has no accelerator name.
+ *
+ * The platform's primary modifier (Command on macOS, Control elsewhere) is recorded as
+ * `CommandOrControl`, so a binding recorded on one platform works on the other.
+ */
+export function acceleratorFromKeyboardEvent(
+  event: KeyboardEvent | React.KeyboardEvent,
+): string | null {
+  const key = keyFromCode(event.code)
+  if (!key) return null
+  const isMac = isMacPlatform()
+  const modifiers = [
+    (isMac ? event.metaKey : event.ctrlKey) && 'CommandOrControl',
+    isMac && event.ctrlKey && 'Control',
+    !isMac && event.metaKey && 'Super',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+  ].filter((modifier): modifier is string => Boolean(modifier))
+  return normalizeAccelerator([...modifiers, key].join('+'))
+}
+
+const MAC_SYMBOLS: Record<string, string> = {
+  CommandOrControl: '⌘',
+  Command: '⌘',
+  Control: '⌃',
+  Alt: '⌥',
+  Shift: '⇧',
+}
+
+/**
+ * An accelerator as shown to the user: symbols on macOS, `Ctrl+Shift+M` style elsewhere.
+ */
+export function formatAccelerator(accelerator: string): string {
+  const parts = accelerator.split('+')
+  if (isMacPlatform()) return parts.map((part) => MAC_SYMBOLS[part] ?? part).join('')
+  return parts.map((part) => (part === 'CommandOrControl' ? 'Ctrl' : part)).join('+')
+}
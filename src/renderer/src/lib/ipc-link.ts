@@ -0,0 +1,116 @@
+/**
+ * Terminating tRPC link that talks to the main process over Electron IPC.
+ *
+ * Counterpart of `src/main/trpc/ipc-adapter.ts`; selected in `trpc.ts` when
+ * `VITE_TRPC_TRANSPORT=ipc`.
+ *
+ * @remarks
+ * - Operations issued in the same tick are flushed as one IPC message, so mutations fired
+ *   together are batched like with `httpBatchLink`.
+ * - Request ids come from a module-level counter rather than `op.id`, because every client
+ *   created from the same links (`trpcClient`, `trpcProxy`) numbers its operations from 1.
+ * - Unsubscribing (or aborting via `op.signal`) sends `stop`, which aborts the procedure in main.
+ */
+import { TRPCClientError, type TRPCLink } from '@trpc/client'
+import type { AnyTRPCRouter, TRPCDataTransformer } from '@trpc/server'
+import { observable } from '@trpc/server/observable'
+import type { TrpcIpcRequest, TrpcIpcResponse } from '@shared/trpc-ipc'
+
+type ResponseHandler = (message: TrpcIpcResponse) => void
+
+const handlers = new Map<number, ResponseHandler>()
+let nextRequestId = 1
+let pending: TrpcIpcRequest[] = []
+let unsubscribeChannel: (() => void) | null = null
+
+const ensureChannel = (): void => {
+  unsubscribeChannel ??= window.xAPI.trpc.ipc.onMessage((message) => {
+    handlers.get(message.id)?.(message)
+  })
+}
+
+const enqueue = (request: TrpcIpcRequest): void => {
+  if (pending.length === 0) {
+    queueMicrotask(() => {
+      const batch = pending
+      pending = []
+      window.xAPI.trpc.ipc.send(batch)
+    })
+  }
+  pending.push(request)
+}
+
+export type IpcLinkOptions = {
+  /** Must match the server's transformer (superjson). */
+  transformer: TRPCDataTransformer
+}
+
+/**
+ * Create the IPC link.
+ *
+ * @example
+ * ```ts
+ * createTRPCClient<AppRouter>({ links: [ipcLink({ transformer: superjson })] })
+ * ```
+ */
+export function ipcLink<TRouter extends AnyTRPCRouter>(options: IpcLinkOptions): TRPCLink<TRouter> {
+  const { transformer } = options
+  return () =>
+    ({ op }) =>
+      observable((observer) => {
+        ensureChannel()
+        const id = nextRequestId++
+        let done = false
+
+        const finish = (): void => {
+          done = true
+          handlers.delete(id)
+          op.signal?.removeEventListener('abort', stop)
+        }
+        function stop(): void {
+          if (done) return
+          finish()
+          enqueue({ kind: 'stop', id })
+        }
+
+        handlers.set(id, (message) => {
+          switch (message.kind) {
+            case 'started':
+              observer.next({ result: { type: 'started' } })
+              break
+            case 'data':
+              observer.next({
+                result: { type: 'data', data: transformer.deserialize(message.data) },
+              })
+              // Queries and mutations resolve with their single result.
+              if (op.type !== 'subscription') {
+                finish()
+                observer.complete()
+              }
+              break
+            case 'stopped':
+              finish()
+              observer.next({ result: { type: 'stopped' } })
+              observer.complete()
+              break
+            case 'error':
+              finish()
+              observer.error(
+                TRPCClientError.from({ error: transformer.deserialize(message.error) as object }),
+              )
+              break
+          }
+        })
+
+        op.signal?.addEventListener('abort', stop)
+        enqueue({
+          kind: 'call',
+          id,
+          type: op.type,
+          path: op.path,
+          input: transformer.serialize(op.input),
+        })
+
+        return stop
+      })
+}
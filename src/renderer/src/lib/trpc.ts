@@ -11,12 +11,15 @@
  *   via `httpSubscriptionLink`, while queries/mutations use HTTP batching via
  *   `httpBatchLink`. This yields a single client that can handle real-time
  *   streams and efficient batched requests.
+ * - Transport is a single switch, `VITE_TRPC_TRANSPORT` (shared with main): `http` (default)
+ *   uses the links above against the localhost server; `ipc` replaces them with `ipcLink`,
+ *   which carries the same operations over Electron IPC with no TCP port.
  * - `superjson` is configured at the link-level so complex data (Dates, Maps, etc.)
  *   round-trips seamlessly between server and client. The server also opts into
  *   `superjson` in `initTRPC(...).create({ transformer: superjson })`.
- * - The base URL comes from `VITE_TRPC_HTTP_URL`, which is treated as the single
- *   source of truth and shared with the main process tRPC server. This ensures
- *   both processes agree on the host/port and endpoint path.
+ * - The base URL is handed over by main at runtime via preload (`xAPI.trpc.httpUrl`), so
+ *   renderers follow the port the server actually bound; `VITE_TRPC_HTTP_URL` is the
+ *   configured default and fallback.
  * - We export three flavors for different usage patterns:
  *   - `trpc`: An options-proxy for TanStack React Query. Use with `useQuery`,
  *     `useMutation`, etc. Example: `useQuery(trpc.notes.list.queryOptions())`.
@@ -42,6 +45,8 @@ import { createTRPCOptionsProxy } from '@trpc/tanstack-react-query'
 import superjson from 'superjson'
 
 import type { AppRouter } from '@shared/trpc'
+import { resolveTrpcTransport } from '@shared/trpc-ipc'
+import { ipcLink } from './ipc-link'
 
 /**
  * Global TanStack Query client for the renderer process.
@@ -80,18 +85,37 @@ export const queryClient = new QueryClient({
  * Base HTTP URL for tRPC server communication.
  *
  * This URL represents the endpoint where the main process tRPC server is listening.
- * It's sourced from the same environment variable that the main process server
- * uses for binding, ensuring both processes agree on the communication endpoint.
+ * Main hands the actual URL to preload at runtime (the server falls back to an ephemeral port
+ * when the configured one is taken), so it wins over the build-time `VITE_TRPC_HTTP_URL`,
+ * which remains the fallback.
  *
  * @example
  * ```typescript
- * // Environment: VITE_TRPC_HTTP_URL=http://127.0.0.1:3001/trpc
- * // API_URL = "http://127.0.0.1:3001/trpc"
+ * // Environment: VITE_TRPC_HTTP_URL=http://127.0.0.1:3001/trpc, port 3001 taken
+ * // API_URL = "http://127.0.0.1:54873/trpc"
  * ```
  *
  * @see {@link https://trpc.io/docs/server/adapters/standalone} for server configuration
  */
-const API_URL = import.meta.env.VITE_TRPC_HTTP_URL
+const API_URL = window.xAPI.trpc.httpUrl ?? import.meta.env.VITE_TRPC_HTTP_URL
+
+let authTokenPromise: Promise<string> | null = null
+
+/**
+ * Per-launch auth token for the tRPC server, fetched once through preload.
+ *
+ * @remarks
+ * A failed fetch is not cached, so the next request retries instead of failing forever.
+ */
+const getAuthToken = (): Promise<string> => {
+  authTokenPromise ??= window.xAPI.trpc.getAuthToken().catch((error: unknown) => {
+    authTokenPromise = null
+    throw error
+  })
+  return authTokenPromise
+}
+
+const TRPC_TRANSPORT = resolveTrpcTransport(import.meta.env.VITE_TRPC_TRANSPORT)
 
 /**
  * Transport link chain for the tRPC client.
@@ -106,6 +130,8 @@ const API_URL = import.meta.env.VITE_TRPC_HTTP_URL
  * - `httpSubscriptionLink`: Handles real-time subscriptions via Server-Sent Events
  * - `httpBatchLink`: Batches queries/mutations for efficient HTTP communication
  * - `transformer: superjson`: Applied on both links to match server configuration
+ * - Auth: `httpBatchLink` sends `Authorization: Bearer <token>`; SSE cannot set headers, so
+ *   `httpSubscriptionLink` sends the token as `connectionParams`
  *
  * @example
  * ```typescript
@@ -121,11 +147,21 @@ const API_URL = import.meta.env.VITE_TRPC_HTTP_URL
 const links = [
   // Enable request logging in development for visibility
   ...(import.meta.env.DEV ? [loggerLink({ enabled: () => true })] : []),
-  splitLink({
-    condition: (op) => op.type === 'subscription',
-    true: httpSubscriptionLink({ url: API_URL, transformer: superjson }),
-    false: httpBatchLink({ url: API_URL, transformer: superjson }),
-  }),
+  TRPC_TRANSPORT === 'ipc'
+    ? ipcLink<AppRouter>({ transformer: superjson })
+    : splitLink({
+        condition: (op) => op.type === 'subscription',
+        true: httpSubscriptionLink({
+          url: API_URL,
+          transformer: superjson,
+          connectionParams: async () => ({ token: await getAuthToken() }),
+        }),
+        false: httpBatchLink({
+          url: API_URL,
+          transformer: superjson,
+          headers: async () => ({ authorization: `Bearer ${await getAuthToken()}` }),
+        }),
+      }),
 ]
 
 /**
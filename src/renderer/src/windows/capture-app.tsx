@@ -0,0 +1,150 @@
+import React from 'react'
+import { useMutation } from '@tanstack/react-query'
+import {
+  IDEA_CONTENT_MAX_LENGTH,
+  IDEA_TITLE_MAX_LENGTH,
+  IdeaCreateInputSchema,
+} from '@shared/ideas'
+import type { SettingValue } from '@shared/settings'
+import { queryClient, trpc } from '@/lib/trpc'
+import { useSettings } from '@/hooks/use-settings'
+import { useDebouncedValue } from '@/hooks/use-debounced-value'
+
+type Draft = SettingValue<'capture.draft'>
+
+const DRAFT_SAVE_DELAY_MS = 400
+const EMPTY_DRAFT: Draft = { title: '', content: '' }
+
+/**
+ * Quick-capture popup: a title and optional content saved as a new idea.
+ *
+ * @remarks
+ * The window is created hidden at startup and hidden again when dismissed (see `keepAlive` in
+ * the window registry), so this component stays mounted between uses. The draft is mirrored to
+ * the `capture.draft` setting, so it also survives reloads and restarts.
+ *
+ * Keys: Enter in the title (or Ctrl/Cmd+Enter anywhere) saves and closes; Escape closes and
+ * keeps the draft.
+ */
+const CaptureApp = (): React.JSX.Element => {
+  const { settings, setSetting } = useSettings()
+  const [draft, setDraft] = React.useState<Draft | null>(null)
+  const [invalid, setInvalid] = React.useState<string | null>(null)
+  const titleRef = React.useRef<HTMLInputElement>(null)
+  const dismiss = useMutation(trpc.windows.close.mutationOptions())
+  const create = useMutation(
+    trpc.ideas.create.mutationOptions({
+      onSuccess: async () => {
+        setDraft(EMPTY_DRAFT)
+        setSetting('capture.draft', EMPTY_DRAFT)
+        dismiss.mutate({ type: 'capture' })
+        await queryClient.invalidateQueries({ queryKey: trpc.ideas.pathKey() })
+      },
+    }),
+  )
+
+  // Start from the stored draft once settings have loaded
+  const storedDraft = settings?.['capture.draft']
+  React.useEffect(() => {
+    if (storedDraft && draft === null) setDraft(storedDraft)
+  }, [storedDraft, draft])
+
+  // Read through a ref: only the draft's own changes should write, not the stored copy catching up
+  const storedDraftRef = React.useRef(storedDraft)
+  storedDraftRef.current = storedDraft
+  const debouncedDraft = useDebouncedValue(draft, DRAFT_SAVE_DELAY_MS)
+  React.useEffect(() => {
+    const stored = storedDraftRef.current
+    if (!debouncedDraft || !stored) return
+    if (debouncedDraft.title !== stored.title || debouncedDraft.content !== stored.content) {
+      setSetting('capture.draft', debouncedDraft)
+    }
+  }, [debouncedDraft, setSetting])
+
+  // The window is reused: put the caret in the title every time it is shown
+  React.useEffect(() => {
+    const focusTitle = (): void => titleRef.current?.focus()
+    focusTitle()
+    window.addEventListener('focus', focusTitle)
+    return () => window.removeEventListener('focus', focusTitle)
+  }, [])
+
+  const close = (): void => {
+    // Keep the latest keystrokes even if the debounced save has not run yet
+    if (draft) setSetting('capture.draft', draft)
+    create.reset()
+    setInvalid(null)
+    dismiss.mutate({ type: 'capture' })
+  }
+
+  const parsed = IdeaCreateInputSchema.safeParse({
+    title: draft?.title ?? '',
+    content: draft?.content.trim() ? draft.content : null,
+  })
+
+  const save = (): void => {
+    if (create.isPending) return
+    if (!parsed.success) {
+      setInvalid(parsed.error.issues[0]?.message ?? 'Invalid idea')
+      return
+    }
+    setInvalid(null)
+    create.mutate(parsed.data)
+  }
+
+  const onKeyDown = (event: React.KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      close()
+    } else if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault()
+      save()
+    }
+  }
+
+  return (
+    <div
+      onKeyDown={onKeyDown}
+      className="flex h-screen flex-col gap-2 bg-background p-3 text-sm text-foreground"
+    >
+      <div className="flex items-center justify-between text-xs text-muted-foreground [-webkit-app-region:drag]">
+        <span>Quick capture</span>
+        <span>Enter to save · Esc to close</span>
+      </div>
+      <input
+        ref={titleRef}
+        value={draft?.title ?? ''}
+        maxLength={IDEA_TITLE_MAX_LENGTH}
+        disabled={draft === null}
+        placeholder="Idea title"
+        onChange={(e) =>
+          setDraft((current) => ({ ...(current ?? EMPTY_DRAFT), title: e.target.value }))
+        }
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.metaKey && !e.ctrlKey) {
+            e.preventDefault()
+            save()
+          }
+        }}
+        className="rounded border bg-background px-2 py-1"
+      />
+      <textarea
+        value={draft?.content ?? ''}
+        maxLength={IDEA_CONTENT_MAX_LENGTH}
+        disabled={draft === null}
+        placeholder="Details (optional)"
+        onChange={(e) =>
+          setDraft((current) => ({ ...(current ?? EMPTY_DRAFT), content: e.target.value }))
+        }
+        className="min-h-0 flex-1 resize-none rounded border bg-background px-2 py-1 font-mono text-xs"
+      />
+      {(invalid || create.error || dismiss.error) && (
+        <div className="text-xs text-destructive">
+          {invalid ?? create.error?.message ?? dismiss.error?.message}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CaptureApp
@@ -1,5 +1,6 @@
 import React from 'react'
 import {
+  Outlet,
   RouterProvider,
   createRootRouteWithContext,
   createRoute,
@@ -8,6 +9,7 @@ import {
 import { createHashHistory } from '@tanstack/history'
 import { queryClient, trpc, trpcClient } from '@/lib/trpc'
 import { useQuery } from '@tanstack/react-query'
+import { CallInspector } from './dashboard/inspector/call-inspector'
 
 type DashboardContext = {
   queryClient: typeof queryClient
@@ -17,16 +19,18 @@ type DashboardContext = {
 const dashboardRoot = createRootRouteWithContext<DashboardContext>()({
   component: function DashboardLayout(): React.JSX.Element {
     return (
-      <div className="h-screen bg-background text-foreground p-4">
-        <div className="h-full space-y-3 text-sm">
-          <div className="rounded border bg-card p-3">
-            <h3 className="mb-2 font-medium">System Dashboard</h3>
-            <SystemStatus />
-          </div>
-          <div className="rounded border bg-card p-3">
-            <h3 className="mb-2 font-medium">Live Data Stream</h3>
-            <LiveTicks />
-          </div>
+      <div className="flex h-screen flex-col gap-3 bg-background p-4 text-foreground">
+        {/* Plain hash links: `Link` is typed against the main window's registered router. */}
+        <nav className="app-region-no-drag flex items-center gap-4 text-xs text-muted-foreground">
+          <a href="#/" className="hover:text-foreground">
+            Overview
+          </a>
+          <a href="#/inspector" className="hover:text-foreground">
+            Calls
+          </a>
+        </nav>
+        <div className="min-h-0 flex-1 text-sm">
+          <Outlet />
         </div>
       </div>
     )
@@ -82,7 +86,6 @@ function LiveTicks(): React.JSX.Element {
   )
 }
 
-// 仪表板只有单个路由
 const dashboardIndex = createRoute({
   getParentRoute: () => dashboardRoot,
   path: '/',
@@ -92,10 +95,30 @@ const dashboardIndex = createRoute({
     await context.queryClient.ensureQueryData(trpc.helloTrpc.time.queryOptions())
     return null
   },
-  component: () => null, // 内容在根布局中
+  component: function DashboardOverview(): React.JSX.Element {
+    return (
+      <div className="h-full space-y-3">
+        <div className="rounded border bg-card p-3">
+          <h3 className="mb-2 font-medium">System Dashboard</h3>
+          <SystemStatus />
+        </div>
+        <div className="rounded border bg-card p-3">
+          <h3 className="mb-2 font-medium">Live Data Stream</h3>
+          <LiveTicks />
+        </div>
+      </div>
+    )
+  },
+})
+
+// Recent tRPC calls recorded by main; see `src/main/trpc/call-inspector.ts`.
+const dashboardInspector = createRoute({
+  getParentRoute: () => dashboardRoot,
+  path: '/inspector',
+  component: CallInspector,
 })
 
-const dashboardRouteTree = dashboardRoot.addChildren([dashboardIndex])
+const dashboardRouteTree = dashboardRoot.addChildren([dashboardIndex, dashboardInspector])
 
 const dashboardRouter = createRouter({
   routeTree: dashboardRouteTree,
@@ -0,0 +1,167 @@
+import React from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import {
+  CALL_INSPECTOR_CAPACITY,
+  type TrpcCallRecord,
+  type TrpcCallStatus,
+} from '@shared/trpc-inspector'
+import { trpc, trpcClient } from '@/lib/trpc'
+import { useSettings } from '@/hooks/use-settings'
+
+type StatusFilter = 'all' | TrpcCallStatus
+
+const STATUS_CLASSES: Record<TrpcCallStatus, string> = {
+  live: 'text-primary',
+  ok: 'text-muted-foreground',
+  error: 'text-destructive',
+}
+
+/**
+ * The main process's recent tRPC calls, kept live by the `inspector.calls` subscription.
+ */
+const useInspectedCalls = (): {
+  calls: TrpcCallRecord[]
+  enabled: boolean | null
+  error: { message: string } | null
+} => {
+  const [calls, setCalls] = React.useState<TrpcCallRecord[]>([])
+  const [enabled, setEnabled] = React.useState<boolean | null>(null)
+  const [error, setError] = React.useState<{ message: string } | null>(null)
+
+  React.useEffect(() => {
+    const subscription = trpcClient.inspector.calls.subscribe(undefined, {
+      onData: (event) => {
+        setError(null)
+        if (event.type === 'reset') {
+          setEnabled(event.enabled)
+          setCalls(event.calls)
+          return
+        }
+        setCalls((previous) => {
+          const index = previous.findIndex((call) => call.id === event.call.id)
+          if (index === -1) return [...previous, event.call].slice(-CALL_INSPECTOR_CAPACITY)
+          const next = [...previous]
+          next[index] = event.call
+          return next
+        })
+      },
+      onError: (err) => setError(err),
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  return { calls, enabled, error }
+}
+
+const formatBytes = (bytes: number | null): string => {
+  if (bytes === null) return '?'
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`
+}
+
+const describeOutcome = (call: TrpcCallRecord): string => {
+  if (call.status === 'error') return call.errorCode ?? 'error'
+  if (call.type !== 'subscription') return 'ok'
+  return `${call.status === 'live' ? 'live' : 'closed'} · ${call.events} events`
+}
+
+export const CallInspector = (): React.JSX.Element => {
+  const { calls, enabled, error } = useInspectedCalls()
+  const { setSetting } = useSettings()
+  const clear = useMutation(trpc.inspector.clear.mutationOptions())
+  const [pathFilter, setPathFilter] = React.useState('')
+  const [statusFilter, setStatusFilter] = React.useState<StatusFilter>('all')
+
+  const needle = pathFilter.trim().toLowerCase()
+  const visible = calls
+    .filter((call) => statusFilter === 'all' || call.status === statusFilter)
+    .filter((call) => !needle || call.path.toLowerCase().includes(needle))
+    .reverse()
+
+  if (error) {
+    return <div className="text-xs text-destructive">Error: {error.message}</div>
+  }
+  if (enabled === null) {
+    return <div className="h-24 animate-pulse rounded border bg-muted" />
+  }
+  if (!enabled) {
+    return (
+      <div className="space-y-2 text-xs text-muted-foreground">
+        <div>Call recording is off.</div>
+        <button
+          onClick={() => setSetting('diagnostics.callInspector', true)}
+          className="rounded border px-3 py-1 text-foreground hover:bg-accent"
+        >
+          Record tRPC calls
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-2 text-xs">
+      <div className="flex items-center gap-2">
+        <input
+          value={pathFilter}
+          onChange={(e) => setPathFilter(e.target.value)}
+          placeholder="Filter by path"
+          className="min-w-0 flex-1 rounded border bg-background px-2 py-1"
+        />
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="rounded border bg-background px-2 py-1"
+        >
+          <option value="all">All</option>
+          <option value="live">Live</option>
+          <option value="ok">OK</option>
+          <option value="error">Errors</option>
+        </select>
+        <button
+          disabled={clear.isPending || calls.length === 0}
+          onClick={() => clear.mutate()}
+          className="rounded border px-3 py-1 hover:bg-accent disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+      {clear.error && <div className="text-destructive">{clear.error.message}</div>}
+      <div className="min-h-0 flex-1 overflow-auto rounded border">
+        {visible.length === 0 ? (
+          <div className="p-3 text-muted-foreground">No calls recorded yet.</div>
+        ) : (
+          <table className="w-full font-mono">
+            <thead className="sticky top-0 bg-card text-left text-muted-foreground">
+              <tr>
+                <th className="px-2 py-1 font-normal">Time</th>
+                <th className="px-2 py-1 font-normal">Type</th>
+                <th className="px-2 py-1 font-normal">Path</th>
+                <th className="px-2 py-1 text-right font-normal">Input</th>
+                <th className="px-2 py-1 text-right font-normal">Duration</th>
+                <th className="px-2 py-1 font-normal">Outcome</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {visible.map((call) => (
+                <tr key={call.id} title={`Request ${call.requestId}`}>
+                  <td className="px-2 py-1 text-muted-foreground">
+                    {format(call.startedAt, 'HH:mm:ss.SSS')}
+                  </td>
+                  <td className="px-2 py-1">{call.type}</td>
+                  <td className="px-2 py-1">{call.path}</td>
+                  <td className="px-2 py-1 text-right">{formatBytes(call.inputBytes)}</td>
+                  <td className="px-2 py-1 text-right">
+                    {call.durationMs === null ? '…' : `${call.durationMs} ms`}
+                  </td>
+                  <td className={`px-2 py-1 ${STATUS_CLASSES[call.status]}`}>
+                    {describeOutcome(call)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
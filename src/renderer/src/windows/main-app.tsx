@@ -10,8 +10,31 @@ import {
 } from '@tanstack/react-router'
 import { createHashHistory } from '@tanstack/history'
 import { queryClient, trpc, trpcClient } from '@/lib/trpc'
-import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
+import { useQuery } from '@tanstack/react-query'
 import { z } from 'zod'
+import { TagMatchModeSchema } from '@shared/tags'
+import { LogLevelSchema } from '@shared/logs'
+import { IdeaList } from './main/ideas/idea-list'
+import { IdeaDetail } from './main/ideas/idea-detail'
+import { IdeaCreate, IdeaEdit } from './main/ideas/idea-editor'
+import { IdeaSearch } from './main/ideas/idea-search'
+import { TagManager } from './main/tags/tag-manager'
+import { TrashList } from './main/trash/trash-list'
+import { ThemeSelect } from './main/appearance/theme-select'
+import { SettingsView } from './main/settings/settings-view'
+import { LogViewer } from './main/logs/log-viewer'
+import { CommandPalette } from './main/command-palette/command-palette'
+import { registerCommandSource } from './main/command-palette/command-registry'
+import { routeCommands } from './main/command-palette/route-commands'
+import { windowCommands } from './main/command-palette/window-commands'
+import { appearanceCommands } from './main/appearance/appearance-commands'
+import { ideaSearchCommands } from './main/ideas/idea-commands'
+
+// Palette groups follow this order
+registerCommandSource(routeCommands)
+registerCommandSource(ideaSearchCommands)
+registerCommandSource(windowCommands)
+registerCommandSource(appearanceCommands)
 
 type RouterContext = {
   queryClient: typeof queryClient
@@ -37,9 +60,23 @@ const rootRoute = createRootRouteWithContext<RouterContext>()({
               <Link to="/db" className="hover:text-foreground">
                 DB
               </Link>
-              <Link to="/letters" search={{ pageSize: 3 }} className="hover:text-foreground">
-                Letters
+              <Link to="/ideas" className="hover:text-foreground">
+                Ideas
+              </Link>
+              <Link to="/ideas/search" className="hover:text-foreground">
+                Search
+              </Link>
+              <Link to="/trash" className="hover:text-foreground">
+                Trash
+              </Link>
+              <Link to="/settings" className="hover:text-foreground">
+                Settings
               </Link>
+              <Link to="/logs" className="hover:text-foreground">
+                Logs
+              </Link>
+              <ThemeSelect />
+              <CommandPalette />
             </nav>
           </div>
         </div>
@@ -49,11 +86,23 @@ const rootRoute = createRootRouteWithContext<RouterContext>()({
       </div>
     )
   },
+  // Unknown paths, e.g. from a deep link or `--route` naming a route this version lacks
+  notFoundComponent: function NotFound(): React.JSX.Element {
+    return (
+      <div className="space-y-2 text-sm text-muted-foreground">
+        <div>This page does not exist.</div>
+        <Link to="/ideas" className="underline hover:text-foreground">
+          Back to ideas
+        </Link>
+      </div>
+    )
+  },
 })
 
 const indexRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/',
+  staticData: { title: 'Home' },
   component: function IndexRoute(): React.JSX.Element {
     const { data: now } = useQuery(trpc.helloTrpc.time.queryOptions())
     return (
@@ -72,6 +121,7 @@ const helloSearchSchema = z.object({
 const helloRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/hello',
+  staticData: { title: 'Hello' },
   validateSearch: (search) => helloSearchSchema.parse(search),
   loader: async ({ context, location }) => {
     const search = location.search as z.infer<typeof helloSearchSchema>
@@ -100,6 +150,7 @@ const helloRoute = createRoute({
 const ticksRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/ticks',
+  staticData: { title: 'Ticks' },
   component: function TicksRoute(): React.JSX.Element {
     const [tick, setTick] = React.useState<string | null>(null)
     const [count, setCount] = React.useState<number>(0)
@@ -128,6 +179,7 @@ const ticksRoute = createRoute({
 const dbRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/db',
+  staticData: { title: 'Database check' },
   loader: async ({ context }) => {
     await context.queryClient.ensureQueryData(trpc.helloTrpc.db.queryOptions())
     return null
@@ -147,47 +199,163 @@ const dbRoute = createRoute({
   },
 })
 
-const lettersSearch = z.object({ pageSize: z.coerce.number().min(1).max(5).default(3) })
+const ideasSearchSchema = z.object({
+  tags: z.array(z.string()).optional(),
+  mode: TagMatchModeSchema.optional(),
+})
+
+const ideasRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/ideas',
+  staticData: { title: 'Ideas' },
+  validateSearch: (search) => ideasSearchSchema.parse(search),
+  component: function IdeasRoute(): React.JSX.Element {
+    const { tags, mode } = ideasRoute.useSearch()
+    const navigate = ideasRoute.useNavigate()
+    return (
+      <IdeaList
+        tagIds={tags ?? []}
+        tagMode={mode ?? 'all'}
+        onTagFilterChange={(tagIds, tagMode) =>
+          void navigate({
+            search: {
+              tags: tagIds.length > 0 ? tagIds : undefined,
+              mode: tagMode === 'all' ? undefined : tagMode,
+            },
+            replace: true,
+          })
+        }
+      />
+    )
+  },
+})
+
+const tagsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/tags',
+  staticData: { title: 'Tags' },
+  component: function TagsRoute(): React.JSX.Element {
+    return <TagManager />
+  },
+})
+
+const trashRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/trash',
+  staticData: { title: 'Trash' },
+  component: function TrashRoute(): React.JSX.Element {
+    return <TrashList />
+  },
+})
 
-const lettersRoute = createRoute({
+const settingsRoute = createRoute({
   getParentRoute: () => rootRoute,
-  path: '/letters',
-  validateSearch: (search) => lettersSearch.parse(search),
-  component: function LettersRoute(): React.JSX.Element {
-    const { pageSize } = useSearch({ from: lettersRoute.id }) as z.infer<typeof lettersSearch>
-    const { data, isFetchingNextPage, hasNextPage, fetchNextPage } = useInfiniteQuery({
-      queryKey: ['letters', pageSize],
-      initialPageParam: undefined as string | undefined,
-      queryFn: async ({ pageParam }) =>
-        trpcClient.helloTrpc.letters.query({ cursor: pageParam, pageSize }),
-      getNextPageParam: (last) => last.nextCursor ?? undefined,
-    })
-
-    const items = data?.pages.flatMap((p) => p.items) ?? []
+  path: '/settings',
+  staticData: { title: 'Settings' },
+  component: function SettingsRoute(): React.JSX.Element {
+    return <SettingsView />
+  },
+})
 
+const ideaSearchSchema = z.object({
+  // The router JSON-parses search values: a query like `2024` or `true` arrives as a number or
+  // boolean
+  q: z.coerce.string().optional(),
+})
+
+const ideaSearchRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/ideas/search',
+  staticData: { title: 'Search ideas' },
+  validateSearch: (search) => ideaSearchSchema.parse(search),
+  component: function IdeaSearchRoute(): React.JSX.Element {
+    const { q } = ideaSearchRoute.useSearch()
+    return <IdeaSearch initialQuery={q ?? ''} />
+  },
+})
+
+const ideaNewSearchSchema = z.object({
+  // Coerced like `q` above
+  title: z.coerce.string().optional(),
+})
+
+const ideaNewRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/ideas/new',
+  staticData: { title: 'New idea' },
+  validateSearch: (search) => ideaNewSearchSchema.parse(search),
+  component: function IdeaNewRoute(): React.JSX.Element {
+    const { title } = ideaNewRoute.useSearch()
+    // Remount for another title (e.g. a second `--new-idea=` launch) so the form picks it up
+    return <IdeaCreate key={title ?? ''} initialTitle={title} />
+  },
+})
+
+const ideaDetailRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/ideas/$ideaId',
+  loader: async ({ context, params }) => {
+    await context.queryClient.prefetchQuery(trpc.ideas.get.queryOptions({ id: params.ideaId }))
+    return null
+  },
+  component: function IdeaDetailRoute(): React.JSX.Element {
+    const { ideaId } = ideaDetailRoute.useParams()
+    return <IdeaDetail ideaId={ideaId} />
+  },
+})
+
+const ideaEditRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/ideas/$ideaId/edit',
+  component: function IdeaEditRoute(): React.JSX.Element {
+    const { ideaId } = ideaEditRoute.useParams()
+    return <IdeaEdit ideaId={ideaId} />
+  },
+})
+
+const logsSearchSchema = z.object({
+  level: LogLevelSchema.optional(),
+  scope: z.coerce.string().optional(),
+})
+
+const logsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/logs',
+  staticData: { title: 'Logs' },
+  validateSearch: (search) => logsSearchSchema.parse(search),
+  component: function LogsRoute(): React.JSX.Element {
+    const { level, scope } = logsRoute.useSearch()
+    const navigate = logsRoute.useNavigate()
     return (
-      <div className="space-y-3 text-sm">
-        <div className="text-muted-foreground">Infinite letters via TanStack Query.</div>
-        <div className="grid grid-cols-12 gap-1">
-          {items.map((ch) => (
-            <div key={ch} className="border bg-background px-2 py-1 text-center">
-              {ch}
-            </div>
-          ))}
-        </div>
-        <button
-          className="rounded border px-3 py-1 text-xs hover:bg-accent"
-          disabled={!hasNextPage || isFetchingNextPage}
-          onClick={() => fetchNextPage()}
-        >
-          {isFetchingNextPage ? 'Loading…' : hasNextPage ? 'Load more' : 'No more'}
-        </button>
-      </div>
+      <LogViewer
+        minLevel={level ?? 'debug'}
+        scope={scope}
+        onFilterChange={(minLevel, nextScope) =>
+          void navigate({
+            search: { level: minLevel === 'debug' ? undefined : minLevel, scope: nextScope },
+            replace: true,
+          })
+        }
+      />
     )
   },
 })
 
-const routeTree = rootRoute.addChildren([indexRoute, helloRoute, ticksRoute, dbRoute, lettersRoute])
+const routeTree = rootRoute.addChildren([
+  indexRoute,
+  helloRoute,
+  ticksRoute,
+  dbRoute,
+  ideasRoute,
+  ideaSearchRoute,
+  ideaNewRoute,
+  ideaDetailRoute,
+  ideaEditRoute,
+  tagsRoute,
+  trashRoute,
+  settingsRoute,
+  logsRoute,
+])
 
 const router = createRouter({
   routeTree,
@@ -199,6 +367,10 @@ declare module '@tanstack/react-router' {
   interface Register {
     router: typeof router
   }
+  interface StaticDataRouteOption {
+    /** Label of the route's "Go to" command in the command palette. */
+    title?: string
+  }
 }
 
 const App = (): React.JSX.Element => {
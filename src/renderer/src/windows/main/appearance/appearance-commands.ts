@@ -0,0 +1,19 @@
+import { THEME_SOURCE_LABELS, type ThemeSource } from '@shared/appearance'
+import type { CommandSource } from '../command-palette/command-registry'
+
+/**
+ * Switch the app-wide theme source, like the theme select in the main window's header.
+ */
+export const appearanceCommands: CommandSource = {
+  id: 'appearance',
+  group: 'Appearance',
+  getCommands: () =>
+    (Object.keys(THEME_SOURCE_LABELS) as ThemeSource[]).map((source) => ({
+      id: `theme:${source}`,
+      label: `Theme: ${THEME_SOURCE_LABELS[source]}`,
+      keywords: ['theme', 'appearance', 'dark mode', 'light mode'],
+      run: async () => {
+        await window.xAPI.appearance.setThemeSource(source)
+      },
+    })),
+}
@@ -0,0 +1,26 @@
+import React from 'react'
+import { THEME_SOURCE_LABELS, ThemeSourceSchema, type ThemeSource } from '@shared/appearance'
+import { useAppearance } from '@/hooks/use-appearance'
+
+export const ThemeSelect = (): React.JSX.Element => {
+  const appearance = useAppearance()
+
+  return (
+    <select
+      aria-label="Theme"
+      value={appearance?.themeSource ?? 'system'}
+      disabled={!appearance}
+      onChange={(e) => {
+        const parsed = ThemeSourceSchema.safeParse(e.target.value)
+        if (parsed.success) void window.xAPI.appearance.setThemeSource(parsed.data)
+      }}
+      className="rounded border bg-background px-1 py-0.5 text-xs text-foreground"
+    >
+      {(Object.keys(THEME_SOURCE_LABELS) as ThemeSource[]).map((source) => (
+        <option key={source} value={source}>
+          {THEME_SOURCE_LABELS[source]}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,220 @@
+import React from 'react'
+import { Command, defaultFilter } from 'cmdk'
+import { useRouter } from '@tanstack/react-router'
+import { keepPreviousData, useQueries } from '@tanstack/react-query'
+import { useSettings } from '@/hooks/use-settings'
+import { useDebouncedValue } from '@/hooks/use-debounced-value'
+import { acceleratorFromKeyboardEvent, formatAccelerator } from '@/lib/accelerator'
+import { getCommandSources, type PaletteCommand } from './command-registry'
+
+const TOGGLE_ACCELERATOR = 'CommandOrControl+K'
+const SEARCH_DEBOUNCE_MS = 200
+// The `palette.recentCommands` setting's maximum length
+const RECENT_LIMIT = 20
+const RECENT_SHOWN = 5
+
+const itemClassName =
+  'flex cursor-pointer items-center justify-between gap-3 rounded px-2 py-1.5 data-[selected=true]:bg-accent data-[selected=true]:text-accent-foreground'
+
+type PaletteItemProps = {
+  command: PaletteCommand
+  value: string
+  forceMount?: boolean
+  onRun: (command: PaletteCommand) => void
+}
+
+const PaletteItem = ({
+  command,
+  value,
+  forceMount,
+  onRun,
+}: PaletteItemProps): React.JSX.Element => (
+  <Command.Item
+    value={value}
+    keywords={[command.label, ...(command.keywords ?? [])]}
+    forceMount={forceMount}
+    onSelect={() => onRun(command)}
+    className={itemClassName}
+  >
+    <span className="truncate">{command.label}</span>
+    {command.hint && <span className="shrink-0 text-xs text-muted-foreground">{command.hint}</span>}
+  </Command.Item>
+)
+
+/**
+ * Cmd/Ctrl+K command palette of the main window, with the button opening it.
+ *
+ * @remarks
+ * Commands come from the sources in `command-registry.ts`. Sources are asked each time the
+ * palette opens; those with `searchesQuery` again as the search text settles. Commands run
+ * successfully are remembered in the `palette.recentCommands` setting: they are listed first
+ * under "Recent" before anything is typed and outrank other matches while searching.
+ */
+export const CommandPalette = (): React.JSX.Element => {
+  const router = useRouter()
+  const { settings, setSetting } = useSettings()
+  const [open, setOpen] = React.useState(false)
+  const [search, setSearch] = React.useState('')
+  const [runError, setRunError] = React.useState<string | null>(null)
+  const debouncedSearch = useDebouncedValue(search.trim(), SEARCH_DEBOUNCE_MS)
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (acceleratorFromKeyboardEvent(event) !== TOGGLE_ACCELERATOR) return
+      event.preventDefault()
+      setOpen((current) => !current)
+    }
+    document.addEventListener('keydown', onKeyDown)
+    return () => document.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  const sources = getCommandSources()
+  const results = useQueries({
+    queries: sources.map((source) => {
+      const query = source.searchesQuery ? debouncedSearch : ''
+      return {
+        queryKey: ['command-palette', source.id, query],
+        queryFn: async () => source.getCommands({ query, router }),
+        enabled: open,
+        staleTime: 0,
+        placeholderData: source.searchesQuery ? keepPreviousData : undefined,
+      }
+    }),
+  })
+
+  const recents = React.useMemo(() => settings?.['palette.recentCommands'] ?? [], [settings])
+  const recentRanks = React.useMemo(
+    () => new Map(recents.map((id, index) => [id, index])),
+    [recents],
+  )
+
+  // Matching recents get a bonus above any plain match, more for the more recent
+  const filter = React.useCallback(
+    (value: string, query: string, keywords?: string[]): number => {
+      const score = defaultFilter(value, query, keywords)
+      const rank = recentRanks.get(value)
+      return score > 0 && rank !== undefined ? score + 2 - rank / RECENT_LIMIT : score
+    },
+    [recentRanks],
+  )
+
+  const commandsById = new Map<string, PaletteCommand>()
+  sources.forEach((source, index) => {
+    if (source.searchesQuery) return
+    for (const command of results[index]?.data ?? []) commandsById.set(command.id, command)
+  })
+  const recentCommands = recents
+    .map((id) => commandsById.get(id))
+    .filter((command): command is PaletteCommand => command !== undefined)
+    .slice(0, RECENT_SHOWN)
+
+  const onOpenChange = (next: boolean): void => {
+    setOpen(next)
+    if (!next) {
+      setSearch('')
+      setRunError(null)
+    }
+  }
+
+  const run = async (command: PaletteCommand): Promise<void> => {
+    setRunError(null)
+    try {
+      await command.run()
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error))
+      return
+    }
+    if (!command.transient) {
+      setSetting(
+        'palette.recentCommands',
+        [command.id, ...recents.filter((id) => id !== command.id)].slice(0, RECENT_LIMIT),
+      )
+    }
+    onOpenChange(false)
+  }
+  const onRun = (command: PaletteCommand): void => void run(command)
+
+  const loadError = results.find((result) => result.error)?.error
+  const searchResults = results.filter((_, index) => sources[index]?.searchesQuery)
+  const searching = searchResults.some((result) => result?.isFetching)
+  // Search results bypass the filter, so they are not counted as matches by `Command.Empty`
+  const hasSearchResults = searchResults.some((result) => (result?.data?.length ?? 0) > 0)
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => onOpenChange(true)}
+        className="rounded border px-1.5 py-0.5 text-xs hover:text-foreground"
+      >
+        {formatAccelerator(TOGGLE_ACCELERATOR)}
+      </button>
+      <Command.Dialog
+        open={open}
+        onOpenChange={onOpenChange}
+        label="Command palette"
+        filter={filter}
+        loop
+        overlayClassName="fixed inset-0 z-50 bg-black/40"
+        contentClassName="fixed top-[15%] left-1/2 z-50 w-full max-w-lg -translate-x-1/2 overflow-hidden rounded-lg border bg-popover text-sm text-popover-foreground shadow-lg"
+      >
+        <Command.Input
+          value={search}
+          onValueChange={setSearch}
+          placeholder="Type a command or search ideas…"
+          className="w-full border-b bg-transparent px-3 py-2 outline-none placeholder:text-muted-foreground"
+        />
+        {(runError || loadError) && (
+          <div className="border-b px-3 py-1.5 text-xs text-destructive">
+            {runError ?? loadError?.message}
+          </div>
+        )}
+        <Command.List className="max-h-80 overflow-y-auto p-1 [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:py-1 [&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:text-muted-foreground">
+          {searching && (
+            <Command.Loading className="px-2 py-1.5 text-xs text-muted-foreground">
+              Searching…
+            </Command.Loading>
+          )}
+          {!hasSearchResults && (
+            <Command.Empty className="px-2 py-6 text-center text-xs text-muted-foreground">
+              No matching commands
+            </Command.Empty>
+          )}
+          {search === '' && recentCommands.length > 0 && (
+            <Command.Group heading="Recent">
+              {recentCommands.map((command) => (
+                <PaletteItem
+                  key={command.id}
+                  command={command}
+                  value={`recent:${command.id}`}
+                  onRun={onRun}
+                />
+              ))}
+            </Command.Group>
+          )}
+          {sources.map((source, index) => {
+            const commands = results[index]?.data ?? []
+            if (commands.length === 0) return null
+            return (
+              <Command.Group
+                key={source.id}
+                heading={source.group}
+                forceMount={source.searchesQuery}
+              >
+                {commands.map((command) => (
+                  <PaletteItem
+                    key={command.id}
+                    command={command}
+                    value={command.id}
+                    forceMount={source.searchesQuery}
+                    onRun={onRun}
+                  />
+                ))}
+              </Command.Group>
+            )
+          })}
+        </Command.List>
+      </Command.Dialog>
+    </>
+  )
+}
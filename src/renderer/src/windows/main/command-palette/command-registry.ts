@@ -0,0 +1,61 @@
+/**
+ * Command palette registry.
+ *
+ * Features contribute commands by registering a {@link CommandSource}; the palette
+ * (`command-palette.tsx`) only renders what the registered sources return, so adding commands
+ * never means editing it. Sources are registered once at startup (see `main-app.tsx`).
+ */
+import type { AnyRouter } from '@tanstack/react-router'
+
+export type PaletteCommand = {
+  /** Stable across sessions and unique across sources; recents are stored by id. */
+  id: string
+  label: string
+  /** Extra words the filter matches besides the label. */
+  keywords?: string[]
+  /** Short secondary text shown right-aligned (e.g. a path). */
+  hint?: string
+  /** Not remembered as recently used, e.g. one-off search results. */
+  transient?: boolean
+  /** Rejecting keeps the palette open and shows the error. */
+  run: () => void | Promise<void>
+}
+
+export type CommandSourceContext = {
+  /** The palette's search text; always `''` for sources without `searchesQuery`. */
+  query: string
+  router: AnyRouter
+}
+
+export type CommandSource = {
+  id: string
+  /** Heading of the source's commands in the palette. */
+  group: string
+  /**
+   * Whether commands depend on the search text. Such sources are asked again (debounced) as the
+   * user types and their commands are shown as returned, without the palette's own filtering.
+   */
+  searchesQuery?: boolean
+  getCommands: (context: CommandSourceContext) => PaletteCommand[] | Promise<PaletteCommand[]>
+}
+
+const sources = new Map<string, CommandSource>()
+
+/**
+ * Add a source of palette commands; registering an id again replaces the earlier source.
+ *
+ * @returns A function removing the source.
+ */
+export function registerCommandSource(source: CommandSource): () => void {
+  sources.set(source.id, source)
+  return () => {
+    if (sources.get(source.id) === source) sources.delete(source.id)
+  }
+}
+
+/**
+ * Registered sources in registration order.
+ */
+export function getCommandSources(): CommandSource[] {
+  return [...sources.values()]
+}
@@ -0,0 +1,31 @@
+import type { AnyRoute } from '@tanstack/react-router'
+import type { CommandSource } from './command-registry'
+
+// `/ideas/search` → `Ideas search`, for routes without a `staticData.title`
+const labelFromPath = (path: string): string => {
+  const words = path.split('/').filter(Boolean).join(' ')
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Home'
+}
+
+/**
+ * "Go to" commands for every route of the router tree that can be opened without parameters;
+ * routes like `/ideas/$ideaId` are reached through other commands (e.g. idea search).
+ */
+export const routeCommands: CommandSource = {
+  id: 'routes',
+  group: 'Go to',
+  getCommands: ({ router }) =>
+    Object.values<AnyRoute>(router.routesByPath)
+      .map((route) => ({
+        path: route.fullPath as string,
+        title: route.options.staticData?.title as string | undefined,
+      }))
+      .filter(({ path }) => !path.includes('$'))
+      .map(({ path, title }) => ({
+        id: `route:${path}`,
+        label: title ?? labelFromPath(path),
+        keywords: [path],
+        hint: path,
+        run: () => router.navigate({ to: path }),
+      })),
+}
@@ -0,0 +1,23 @@
+import { WINDOW_TYPES, getWindowDefinition } from '@shared/window-registry'
+import { trpcClient } from '@/lib/trpc'
+import type { CommandSource } from './command-registry'
+
+/**
+ * Open (or focus) each window type other than the main window, as in the tray.
+ */
+export const windowCommands: CommandSource = {
+  id: 'windows',
+  group: 'Windows',
+  getCommands: () =>
+    WINDOW_TYPES.filter((type) => type !== 'main').map((type) => {
+      const definition = getWindowDefinition(type)
+      return {
+        id: `window:${type}`,
+        label: definition.trayLabel ?? `Open ${definition.title}`,
+        keywords: ['window', definition.title],
+        run: async () => {
+          await trpcClient.windows.open.mutate({ type })
+        },
+      }
+    }),
+}
@@ -0,0 +1,34 @@
+import { trpcClient } from '@/lib/trpc'
+import type { CommandSource } from '../command-palette/command-registry'
+
+const RESULT_LIMIT = 8
+
+/**
+ * Ideas matching the palette's search text (full-text search, as on the search page), plus a
+ * command opening the search page with the same query.
+ */
+export const ideaSearchCommands: CommandSource = {
+  id: 'ideas',
+  group: 'Ideas',
+  searchesQuery: true,
+  getCommands: async ({ query, router }) => {
+    const trimmed = query.trim()
+    if (!trimmed) return []
+    const page = await trpcClient.ideas.search.query({ query: trimmed, limit: RESULT_LIMIT })
+    return [
+      ...page.items.map((idea) => ({
+        id: `idea:${idea.id}`,
+        label: idea.title,
+        transient: true,
+        run: () => router.navigate({ to: '/ideas/$ideaId', params: { ideaId: idea.id } }),
+      })),
+      {
+        id: 'ideas:search',
+        label: `Search ideas for “${trimmed}”`,
+        hint: 'All results',
+        transient: true,
+        run: () => router.navigate({ to: '/ideas/search', search: { q: trimmed } }),
+      },
+    ]
+  },
+}
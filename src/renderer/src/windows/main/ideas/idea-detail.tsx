@@ -0,0 +1,112 @@
+import React from 'react'
+import { Link, useNavigate } from '@tanstack/react-router'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { queryClient, trpc } from '@/lib/trpc'
+import { TagChips } from '../tags/tag-chips'
+import { TagInput } from '../tags/tag-input'
+import { IdeaHistory } from './idea-history'
+
+type IdeaDetailProps = {
+  ideaId: string
+}
+
+export const IdeaDetail = ({ ideaId }: IdeaDetailProps): React.JSX.Element => {
+  const navigate = useNavigate()
+  const [showHistory, setShowHistory] = React.useState(false)
+  const { data: idea, error, isLoading } = useQuery(trpc.ideas.get.queryOptions({ id: ideaId }))
+  const detachTag = useMutation(
+    trpc.tags.detach.mutationOptions({
+      onSuccess: async () => {
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: trpc.ideas.pathKey() }),
+          queryClient.invalidateQueries({ queryKey: trpc.tags.pathKey() }),
+        ])
+      },
+    }),
+  )
+  const openInWindow = useMutation(trpc.windows.openIdea.mutationOptions())
+  const deleteIdea = useMutation(
+    trpc.ideas.delete.mutationOptions({
+      onSuccess: async () => {
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: trpc.ideas.pathKey() }),
+          queryClient.invalidateQueries({ queryKey: trpc.trash.pathKey() }),
+          queryClient.invalidateQueries({ queryKey: trpc.tags.pathKey() }),
+        ])
+        await navigate({ to: '/ideas' })
+      },
+    }),
+  )
+
+  if (isLoading) {
+    return <div className="h-24 animate-pulse rounded border bg-muted" />
+  }
+  if (error || !idea) {
+    return <div className="text-sm text-destructive">Error: {error?.message ?? 'Not found'}</div>
+  }
+
+  return (
+    <article className="space-y-3 text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-base font-medium">{idea.title}</h2>
+          <div className="text-xs text-muted-foreground">
+            Created {format(idea.createdAt, 'PP p')} · Updated {format(idea.updatedAt, 'PP p')}
+          </div>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <button
+            aria-pressed={showHistory}
+            onClick={() => setShowHistory((v) => !v)}
+            className="rounded border px-3 py-1 text-xs hover:bg-accent"
+          >
+            History
+          </button>
+          <button
+            disabled={openInWindow.isPending}
+            onClick={() => openInWindow.mutate({ id: ideaId })}
+            className="rounded border px-3 py-1 text-xs hover:bg-accent"
+          >
+            Open in new window
+          </button>
+          <Link
+            to="/ideas/$ideaId/edit"
+            params={{ ideaId }}
+            className="rounded border px-3 py-1 text-xs hover:bg-accent"
+          >
+            Edit
+          </Link>
+          <button
+            disabled={deleteIdea.isPending}
+            onClick={() => deleteIdea.mutate({ id: ideaId })}
+            className="rounded border px-3 py-1 text-xs text-destructive hover:bg-destructive/10"
+          >
+            Move to trash
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <TagChips
+          tags={idea.tags}
+          onRemove={(tag) => detachTag.mutate({ ideaId, tagId: tag.id })}
+        />
+        <TagInput ideaId={ideaId} existingTagIds={idea.tags.map((tag) => tag.id)} />
+      </div>
+      {deleteIdea.error && (
+        <div className="text-xs text-destructive">{deleteIdea.error.message}</div>
+      )}
+      {openInWindow.error && (
+        <div className="text-xs text-destructive">{openInWindow.error.message}</div>
+      )}
+      {showHistory && <IdeaHistory ideaId={ideaId} />}
+      {idea.content ? (
+        <pre className="whitespace-pre-wrap rounded border bg-card p-3 font-mono text-xs">
+          {idea.content}
+        </pre>
+      ) : (
+        <div className="text-muted-foreground">No content.</div>
+      )}
+    </article>
+  )
+}
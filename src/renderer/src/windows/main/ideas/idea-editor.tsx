@@ -0,0 +1,77 @@
+import React from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { queryClient, trpc } from '@/lib/trpc'
+import { IdeaForm } from './idea-form'
+
+const invalidateIdeas = (): Promise<void> =>
+  queryClient.invalidateQueries({ queryKey: trpc.ideas.pathKey() })
+
+type IdeaCreateProps = {
+  /** Prefills the title, e.g. from a `--new-idea=<title>` launch. */
+  initialTitle?: string
+}
+
+export const IdeaCreate = ({ initialTitle }: IdeaCreateProps): React.JSX.Element => {
+  const navigate = useNavigate()
+  const createIdea = useMutation(
+    trpc.ideas.create.mutationOptions({
+      onSuccess: async (idea) => {
+        await invalidateIdeas()
+        await navigate({ to: '/ideas/$ideaId', params: { ideaId: idea.id } })
+      },
+    }),
+  )
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-sm font-medium">New idea</h2>
+      <IdeaForm
+        initial={initialTitle ? { title: initialTitle, content: null } : undefined}
+        submitLabel="Create"
+        submitting={createIdea.isPending}
+        error={createIdea.error?.message}
+        onSubmit={(fields) => createIdea.mutate(fields)}
+        onCancel={() => void navigate({ to: '/ideas' })}
+      />
+    </div>
+  )
+}
+
+type IdeaEditProps = {
+  ideaId: string
+}
+
+export const IdeaEdit = ({ ideaId }: IdeaEditProps): React.JSX.Element => {
+  const navigate = useNavigate()
+  const { data: idea, error, isLoading } = useQuery(trpc.ideas.get.queryOptions({ id: ideaId }))
+  const updateIdea = useMutation(
+    trpc.ideas.update.mutationOptions({
+      onSuccess: async () => {
+        await invalidateIdeas()
+        await navigate({ to: '/ideas/$ideaId', params: { ideaId } })
+      },
+    }),
+  )
+
+  if (isLoading) {
+    return <div className="h-48 animate-pulse rounded border bg-muted" />
+  }
+  if (error || !idea) {
+    return <div className="text-sm text-destructive">Error: {error?.message ?? 'Not found'}</div>
+  }
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-sm font-medium">Edit idea</h2>
+      <IdeaForm
+        initial={{ title: idea.title, content: idea.content }}
+        submitLabel="Save"
+        submitting={updateIdea.isPending}
+        error={updateIdea.error?.message}
+        onSubmit={(fields) => updateIdea.mutate({ id: ideaId, data: fields })}
+        onCancel={() => void navigate({ to: '/ideas/$ideaId', params: { ideaId } })}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { IDEA_CONTENT_MAX_LENGTH, IdeaFieldsSchema, type IdeaFields } from '@shared/ideas'
+
+// Textareas always yield a string; blank content is stored as null.
+const ideaFormSchema = IdeaFieldsSchema.extend({
+  content: z
+    .string()
+    .max(IDEA_CONTENT_MAX_LENGTH)
+    .transform((value) => (value.trim() === '' ? null : value)),
+})
+
+type IdeaFormInput = z.input<typeof ideaFormSchema>
+
+type IdeaFormProps = {
+  initial?: IdeaFields
+  submitLabel: string
+  submitting: boolean
+  error?: string | null
+  onSubmit: (fields: IdeaFields) => void
+  onCancel: () => void
+}
+
+export const IdeaForm = ({
+  initial,
+  submitLabel,
+  submitting,
+  error,
+  onSubmit,
+  onCancel,
+}: IdeaFormProps): React.JSX.Element => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<IdeaFormInput, unknown, IdeaFields>({
+    resolver: zodResolver(ideaFormSchema),
+    defaultValues: { title: initial?.title ?? '', content: initial?.content ?? '' },
+  })
+
+  return (
+    <form className="space-y-3 text-sm" onSubmit={handleSubmit(onSubmit)}>
+      <div>
+        <label htmlFor="idea-title" className="block text-xs text-muted-foreground">
+          Title
+        </label>
+        <input
+          id="idea-title"
+          autoFocus
+          {...register('title')}
+          className="mt-1 w-full rounded border bg-background px-2 py-1"
+        />
+        {errors.title && (
+          <div className="mt-1 text-xs text-destructive">{errors.title.message}</div>
+        )}
+      </div>
+      <div>
+        <label htmlFor="idea-content" className="block text-xs text-muted-foreground">
+          Content
+        </label>
+        <textarea
+          id="idea-content"
+          rows={12}
+          {...register('content')}
+          className="mt-1 w-full rounded border bg-background px-2 py-1 font-mono text-xs"
+        />
+        {errors.content && (
+          <div className="mt-1 text-xs text-destructive">{errors.content.message}</div>
+        )}
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded bg-primary px-3 py-1 text-xs text-primary-foreground hover:bg-primary/90"
+        >
+          {submitting ? 'Saving…' : submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded border px-3 py-1 text-xs hover:bg-accent"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
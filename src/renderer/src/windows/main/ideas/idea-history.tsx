@@ -0,0 +1,153 @@
+import React from 'react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import type { inferRouterOutputs } from '@trpc/server'
+import type { AppRouter } from '@shared/trpc'
+import { queryClient, trpc } from '@/lib/trpc'
+import { cn } from '@/lib/cn'
+
+type DiffOp = inferRouterOutputs<AppRouter>['revisions']['diff']['content'][number]
+
+const DIFF_STYLES: Record<DiffOp['type'], { prefix: string; className: string }> = {
+  equal: { prefix: ' ', className: 'text-muted-foreground' },
+  add: { prefix: '+', className: 'bg-accent text-foreground' },
+  remove: { prefix: '-', className: 'bg-destructive/10 text-destructive' },
+}
+
+const DiffView = ({ ops }: { ops: DiffOp[] }): React.JSX.Element => {
+  if (ops.every((op) => op.type === 'equal')) {
+    return <div className="text-xs text-muted-foreground">No changes.</div>
+  }
+  return (
+    <pre className="overflow-x-auto rounded border bg-card font-mono text-xs">
+      {ops.map((op, i) => (
+        <div key={i} className={cn('flex px-2', DIFF_STYLES[op.type].className)}>
+          <span className="w-8 shrink-0 select-none text-right opacity-60">{op.oldLine ?? ''}</span>
+          <span className="w-8 shrink-0 select-none text-right opacity-60">{op.newLine ?? ''}</span>
+          <span className="w-4 shrink-0 select-none text-center">
+            {DIFF_STYLES[op.type].prefix}
+          </span>
+          <span className="whitespace-pre-wrap">{op.text}</span>
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+type IdeaHistoryProps = {
+  ideaId: string
+}
+
+/**
+ * Revision history for one idea: pick a base and a compare revision to see a line diff, and
+ * restore any revision (recorded as a new revision, so restores are undoable too).
+ */
+export const IdeaHistory = ({ ideaId }: IdeaHistoryProps): React.JSX.Element => {
+  const {
+    data: revisions,
+    isLoading,
+    error,
+  } = useQuery(trpc.revisions.list.queryOptions({ ideaId }))
+  const [selected, setSelected] = React.useState<{ fromId?: string; toId?: string }>({})
+
+  // Default to comparing the latest revision with the one before it.
+  const toId = selected.toId ?? revisions?.[0]?.id
+  const fromId =
+    selected.fromId ?? revisions?.[Math.max(revisions.findIndex((r) => r.id === toId) + 1, 1)]?.id
+
+  const { data: diff, isFetching: diffLoading } = useQuery({
+    ...trpc.revisions.diff.queryOptions({ fromId: fromId ?? '', toId: toId ?? '' }),
+    enabled: Boolean(fromId && toId && fromId !== toId),
+  })
+
+  const restore = useMutation(
+    trpc.revisions.restore.mutationOptions({
+      onSuccess: async () => {
+        setSelected({})
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: trpc.revisions.pathKey() }),
+          queryClient.invalidateQueries({ queryKey: trpc.ideas.pathKey() }),
+        ])
+      },
+    }),
+  )
+
+  if (isLoading) return <div className="h-24 animate-pulse rounded border bg-muted" />
+  if (error) return <div className="text-xs text-destructive">Error: {error.message}</div>
+  if (!revisions || revisions.length === 0) {
+    return <div className="text-xs text-muted-foreground">No history yet.</div>
+  }
+
+  return (
+    <section className="space-y-3 text-xs" aria-label="Revision history">
+      <table className="w-full">
+        <thead className="text-left text-muted-foreground">
+          <tr>
+            <th className="w-12 font-normal">Base</th>
+            <th className="w-16 font-normal">Compare</th>
+            <th className="font-normal">Saved</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {revisions.map((revision, index) => (
+            <tr key={revision.id} className="border-t">
+              <td>
+                <input
+                  type="radio"
+                  name="history-from"
+                  aria-label={`Use revision from ${format(revision.createdAt, 'PP p')} as base`}
+                  checked={revision.id === fromId}
+                  onChange={() => setSelected({ fromId: revision.id, toId })}
+                />
+              </td>
+              <td>
+                <input
+                  type="radio"
+                  name="history-to"
+                  aria-label={`Compare revision from ${format(revision.createdAt, 'PP p')}`}
+                  checked={revision.id === toId}
+                  onChange={() => setSelected({ fromId, toId: revision.id })}
+                />
+              </td>
+              <td className="py-1">
+                {format(revision.createdAt, 'PP p')}
+                {index === 0 && <span className="ml-2 text-muted-foreground">(current)</span>}
+                {revision.restoredFromId && (
+                  <span className="ml-2 text-muted-foreground">(restored)</span>
+                )}
+                <div className="truncate text-muted-foreground">{revision.title}</div>
+              </td>
+              <td className="text-right">
+                {index > 0 && (
+                  <button
+                    disabled={restore.isPending}
+                    onClick={() => restore.mutate({ revisionId: revision.id })}
+                    className="rounded border px-2 py-0.5 hover:bg-accent"
+                  >
+                    Restore
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {restore.error && <div className="text-destructive">{restore.error.message}</div>}
+      {fromId && toId && fromId !== toId ? (
+        diffLoading && !diff ? (
+          <div className="h-16 animate-pulse rounded border bg-muted" />
+        ) : diff ? (
+          <div className="space-y-2">
+            <div className="text-muted-foreground">Title</div>
+            <DiffView ops={diff.title} />
+            <div className="text-muted-foreground">Content</div>
+            <DiffView ops={diff.content} />
+          </div>
+        ) : null
+      ) : (
+        <div className="text-muted-foreground">Select two different revisions to compare.</div>
+      )}
+    </section>
+  )
+}
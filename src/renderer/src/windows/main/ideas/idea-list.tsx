@@ -0,0 +1,91 @@
+import React from 'react'
+import { Link } from '@tanstack/react-router'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import type { TagMatchMode } from '@shared/tags'
+import { trpc } from '@/lib/trpc'
+import { TagChips } from '../tags/tag-chips'
+import { TagSidebar } from '../tags/tag-sidebar'
+
+const PAGE_SIZE = 20
+
+type IdeaListProps = {
+  tagIds: string[]
+  tagMode: TagMatchMode
+  onTagFilterChange: (tagIds: string[], mode: TagMatchMode) => void
+}
+
+export const IdeaList = ({
+  tagIds,
+  tagMode,
+  onTagFilterChange,
+}: IdeaListProps): React.JSX.Element => {
+  const { data, error, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } =
+    useInfiniteQuery(
+      trpc.ideas.list.infiniteQueryOptions(
+        {
+          limit: PAGE_SIZE,
+          tags: tagIds.length > 0 ? { tagIds, mode: tagMode } : undefined,
+        },
+        { getNextPageParam: (last) => last.nextCursor },
+      ),
+    )
+
+  const ideas = data?.pages.flatMap((page) => page.items) ?? []
+
+  return (
+    <div className="flex gap-6">
+      <TagSidebar selectedIds={tagIds} mode={tagMode} onChange={onTagFilterChange} />
+      <div className="min-w-0 flex-1 space-y-3 text-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="font-medium">Ideas</h2>
+          <Link
+            to="/ideas/new"
+            className="rounded bg-primary px-3 py-1 text-xs text-primary-foreground hover:bg-primary/90"
+          >
+            New idea
+          </Link>
+        </div>
+        {error && <div className="text-destructive">Error: {error.message}</div>}
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-12 animate-pulse rounded border bg-muted" />
+            ))}
+          </div>
+        ) : ideas.length === 0 ? (
+          <div className="text-muted-foreground">
+            {tagIds.length > 0 ? 'No ideas match the selected tags.' : 'No ideas yet.'}
+          </div>
+        ) : (
+          <ul className="divide-y rounded border">
+            {ideas.map((idea) => (
+              <li key={idea.id}>
+                <Link
+                  to="/ideas/$ideaId"
+                  params={{ ideaId: idea.id }}
+                  className="block px-3 py-2 hover:bg-accent"
+                >
+                  <div className="font-medium">{idea.title}</div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {format(idea.createdAt, 'PP p')}
+                    <TagChips tags={idea.tags} />
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+        {hasNextPage && (
+          <button
+            className="rounded border px-3 py-1 text-xs hover:bg-accent"
+            disabled={isFetchingNextPage}
+            onClick={() => fetchNextPage()}
+          >
+            {isFetchingNextPage ? 'Loading…' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import React from 'react'
+import { Link, useNavigate } from '@tanstack/react-router'
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { splitHighlights } from '@shared/ideas'
+import { trpc } from '@/lib/trpc'
+import { useDebouncedValue } from '@/hooks/use-debounced-value'
+
+const PAGE_SIZE = 20
+const DEBOUNCE_MS = 250
+
+const Highlighted = ({ snippet }: { snippet: string }): React.JSX.Element => (
+  <>
+    {splitHighlights(snippet).map((segment, i) =>
+      segment.highlighted ? (
+        <mark key={i} className="rounded-sm bg-accent px-0.5 text-accent-foreground">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={i}>{segment.text}</React.Fragment>
+      ),
+    )}
+  </>
+)
+
+type IdeaSearchProps = {
+  initialQuery: string
+}
+
+export const IdeaSearch = ({ initialQuery }: IdeaSearchProps): React.JSX.Element => {
+  const navigate = useNavigate()
+  const [query, setQuery] = React.useState(initialQuery)
+  const debouncedQuery = useDebouncedValue(query.trim(), DEBOUNCE_MS)
+
+  // Mirror the settled query into the URL so back/forward and reloads keep the search.
+  React.useEffect(() => {
+    void navigate({
+      to: '/ideas/search',
+      search: { q: debouncedQuery || undefined },
+      replace: true,
+    })
+  }, [debouncedQuery, navigate])
+
+  const { data, error, isFetching, isFetchingNextPage, hasNextPage, fetchNextPage } =
+    useInfiniteQuery({
+      ...trpc.ideas.search.infiniteQueryOptions(
+        { query: debouncedQuery, limit: PAGE_SIZE },
+        { getNextPageParam: (last) => last.nextCursor },
+      ),
+      enabled: debouncedQuery.length > 0,
+      placeholderData: keepPreviousData,
+    })
+
+  const results = debouncedQuery ? (data?.pages.flatMap((page) => page.items) ?? []) : []
+
+  return (
+    <div className="space-y-3 text-sm">
+      <input
+        type="search"
+        autoFocus
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search ideas…"
+        aria-label="Search ideas"
+        className="w-full rounded border bg-background px-2 py-1"
+      />
+      {error && <div className="text-destructive">Error: {error.message}</div>}
+      {debouncedQuery && !isFetching && results.length === 0 && (
+        <div className="text-muted-foreground">No ideas match “{debouncedQuery}”.</div>
+      )}
+      <ul className={isFetching && !isFetchingNextPage ? 'opacity-60' : undefined}>
+        {results.map((result) => (
+          <li key={result.id} className="border-b last:border-b-0">
+            <Link
+              to="/ideas/$ideaId"
+              params={{ ideaId: result.id }}
+              className="block px-1 py-2 hover:bg-accent"
+            >
+              <div className="font-medium">
+                <Highlighted snippet={result.titleSnippet} />
+              </div>
+              {result.contentSnippet && (
+                <div className="text-xs text-muted-foreground">
+                  <Highlighted snippet={result.contentSnippet} />
+                </div>
+              )}
+              <div className="text-xs text-muted-foreground">{format(result.createdAt, 'PP')}</div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+      {hasNextPage && (
+        <button
+          className="rounded border px-3 py-1 text-xs hover:bg-accent"
+          disabled={isFetchingNextPage}
+          onClick={() => fetchNextPage()}
+        >
+          {isFetchingNextPage ? 'Loading…' : 'Load more'}
+        </button>
+      )}
+    </div>
+  )
+}
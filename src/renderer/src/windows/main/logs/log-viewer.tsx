@@ -0,0 +1,120 @@
+import React from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { LOG_LEVELS, type LogEntry, type LogLevel } from '@shared/logs'
+import { trpc } from '@/lib/trpc'
+
+const TAIL_LIMIT = 300
+const REFRESH_INTERVAL_MS = 5_000
+
+const LEVEL_CLASSES: Record<LogLevel, string> = {
+  debug: 'text-muted-foreground',
+  info: 'text-foreground',
+  warn: 'text-destructive/70',
+  error: 'text-destructive',
+}
+
+const LogLine = ({ entry }: { entry: LogEntry }): React.JSX.Element => {
+  const [expanded, setExpanded] = React.useState(false)
+  const hasData = entry.data !== undefined
+  return (
+    <li className="px-3 py-1">
+      <button
+        disabled={!hasData}
+        onClick={() => setExpanded((value) => !value)}
+        className="flex w-full gap-2 text-left disabled:cursor-default"
+      >
+        <span className="shrink-0 text-muted-foreground">{format(entry.time, 'HH:mm:ss.SSS')}</span>
+        <span className={`w-10 shrink-0 uppercase ${LEVEL_CLASSES[entry.level]}`}>
+          {entry.level}
+        </span>
+        <span className="shrink-0 text-muted-foreground">{entry.scope}</span>
+        <span className="min-w-0 break-words">{entry.message}</span>
+      </button>
+      {expanded && (
+        <pre className="mt-1 overflow-x-auto rounded bg-muted p-2 text-[11px]">
+          {JSON.stringify(entry.data, null, 2)}
+        </pre>
+      )}
+    </li>
+  )
+}
+
+/**
+ * Tail of the main-process log file, newest entries last, refreshed every few seconds.
+ */
+export const LogViewer = ({
+  minLevel,
+  scope,
+  onFilterChange,
+}: {
+  minLevel: LogLevel
+  scope: string | undefined
+  onFilterChange: (minLevel: LogLevel, scope: string | undefined) => void
+}): React.JSX.Element => {
+  const [follow, setFollow] = React.useState(true)
+  const { data, error, isLoading, refetch, isFetching } = useQuery({
+    ...trpc.logs.tail.queryOptions({ minLevel, scope, limit: TAIL_LIMIT }),
+    refetchInterval: follow ? REFRESH_INTERVAL_MS : false,
+  })
+
+  // Keep the selected scope listed even when the latest entries no longer mention it.
+  const scopes = data?.scopes ?? []
+  const scopeOptions = scope && !scopes.includes(scope) ? [scope, ...scopes] : scopes
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="font-medium">Logs</h2>
+        <div className="flex items-center gap-2 text-xs">
+          <select
+            value={minLevel}
+            onChange={(e) => onFilterChange(e.target.value as LogLevel, scope)}
+            className="rounded border bg-background px-2 py-1"
+          >
+            {LOG_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {level} and above
+              </option>
+            ))}
+          </select>
+          <select
+            value={scope ?? ''}
+            onChange={(e) => onFilterChange(minLevel, e.target.value || undefined)}
+            className="rounded border bg-background px-2 py-1"
+          >
+            <option value="">All scopes</option>
+            {scopeOptions.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} />
+            Follow
+          </label>
+          <button
+            disabled={isFetching}
+            onClick={() => void refetch()}
+            className="rounded border px-3 py-1 hover:bg-accent disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+      {error && <div className="text-destructive">Error: {error.message}</div>}
+      {isLoading ? (
+        <div className="h-48 animate-pulse rounded border bg-muted" />
+      ) : !data || data.entries.length === 0 ? (
+        <div className="text-muted-foreground">No log entries match.</div>
+      ) : (
+        <ul className="max-h-[70vh] divide-y overflow-y-auto rounded border font-mono text-xs">
+          {data.entries.map((entry, index) => (
+            <LogLine key={`${entry.time.getTime()}-${index}`} entry={entry} />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
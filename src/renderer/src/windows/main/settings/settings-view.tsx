@@ -0,0 +1,92 @@
+import React from 'react'
+import { SETTINGS } from '@shared/settings'
+import { useSettings } from '@/hooks/use-settings'
+import { ShortcutSettings } from './shortcut-settings'
+
+const retentionLimits = SETTINGS['trash.retentionDays'].schema
+
+type RetentionInputProps = {
+  days: number
+  onSave: (days: number) => void
+}
+
+// Saved on blur or Enter only: a shorter retention deletes more of the trash, so values passing by
+// while typing (the "3" of "365") must never be stored.
+const RetentionInput = ({ days, onSave }: RetentionInputProps): React.JSX.Element => {
+  const [draft, setDraft] = React.useState(String(days))
+  React.useEffect(() => setDraft(String(days)), [days])
+
+  const parsed = retentionLimits.safeParse(Number(draft))
+  const commit = (): void => {
+    if (!parsed.success) setDraft(String(days))
+    else if (parsed.data !== days) onSave(parsed.data)
+  }
+
+  return (
+    <label className="flex items-center gap-2">
+      Keep trashed ideas for
+      <input
+        type="number"
+        min={retentionLimits.minValue ?? undefined}
+        max={retentionLimits.maxValue ?? undefined}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit()
+          else if (e.key === 'Escape') setDraft(String(days))
+        }}
+        aria-invalid={!parsed.success}
+        className="w-20 rounded border bg-background px-2 py-0.5 aria-invalid:border-destructive"
+      />
+      days
+    </label>
+  )
+}
+
+export const SettingsView = (): React.JSX.Element => {
+  const { settings, error, subscriptionError, setSetting, setError } = useSettings()
+
+  if (error) {
+    return <div className="text-sm text-destructive">Error: {error.message}</div>
+  }
+  if (!settings) {
+    return <div className="h-24 animate-pulse rounded border bg-muted" />
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <h2 className="font-medium">Settings</h2>
+      {subscriptionError && (
+        <div className="text-xs text-destructive">
+          Live updates stopped: {subscriptionError.message}
+        </div>
+      )}
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings['startup.openMainWindow']}
+          onChange={(e) => setSetting('startup.openMainWindow', e.target.checked)}
+        />
+        Open the main window on startup
+      </label>
+      <RetentionInput
+        days={settings['trash.retentionDays']}
+        onSave={(days) => setSetting('trash.retentionDays', days)}
+      />
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings['diagnostics.callInspector']}
+          onChange={(e) => setSetting('diagnostics.callInspector', e.target.checked)}
+        />
+        Record tRPC calls for the dashboard&apos;s call inspector (always on in development)
+      </label>
+      <ShortcutSettings
+        bindings={settings['shortcuts.bindings']}
+        onChange={(bindings) => setSetting('shortcuts.bindings', bindings)}
+      />
+      {setError && <div className="text-xs text-destructive">{setError.message}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import React from 'react'
+import { useMutation } from '@tanstack/react-query'
+import {
+  SHORTCUT_ACTIONS,
+  SHORTCUT_ACTION_IDS,
+  acceleratorsConflict,
+  type ShortcutAction,
+  type ShortcutBindings,
+  type ShortcutStatus,
+} from '@shared/shortcuts'
+import { trpc, trpcClient } from '@/lib/trpc'
+import { acceleratorFromKeyboardEvent, formatAccelerator } from '@/lib/accelerator'
+
+/**
+ * Registration outcome per action, kept live by the `shortcuts.statuses` subscription.
+ */
+const useShortcutStatuses = (): {
+  statuses: ShortcutStatus[] | null
+  error: { message: string } | null
+} => {
+  const [statuses, setStatuses] = React.useState<ShortcutStatus[] | null>(null)
+  const [error, setError] = React.useState<{ message: string } | null>(null)
+
+  React.useEffect(() => {
+    const subscription = trpcClient.shortcuts.statuses.subscribe(undefined, {
+      onData: (next) => {
+        setError(null)
+        setStatuses(next)
+      },
+      onError: (err) => setError(err),
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  return { statuses, error }
+}
+
+type ShortcutSettingsProps = {
+  bindings: ShortcutBindings
+  onChange: (bindings: ShortcutBindings) => void
+}
+
+/**
+ * Global shortcut per action: click a shortcut, then press the new keys (Escape cancels).
+ * Conflicting shortcuts are rejected here; failures to register come from main.
+ */
+export const ShortcutSettings = ({
+  bindings,
+  onChange,
+}: ShortcutSettingsProps): React.JSX.Element => {
+  const { statuses, error } = useShortcutStatuses()
+  const retry = useMutation(trpc.shortcuts.retry.mutationOptions())
+  const [recording, setRecording] = React.useState<ShortcutAction | null>(null)
+  const [conflict, setConflict] = React.useState<string | null>(null)
+
+  const bind = (action: ShortcutAction, accelerator: string | null): void => {
+    const other = accelerator
+      ? SHORTCUT_ACTION_IDS.find((candidate) => {
+          const existing = bindings[candidate]
+          return (
+            candidate !== action && existing !== null && acceleratorsConflict(existing, accelerator)
+          )
+        })
+      : undefined
+    if (other && accelerator) {
+      setConflict(
+        `${formatAccelerator(accelerator)} is already used by ${SHORTCUT_ACTIONS[other].label}`,
+      )
+      return
+    }
+    setConflict(null)
+    setRecording(null)
+    onChange({ ...bindings, [action]: accelerator })
+  }
+
+  const onKeyDown = (action: ShortcutAction, event: React.KeyboardEvent): void => {
+    event.preventDefault()
+    if (event.key === 'Escape' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      setRecording(null)
+      setConflict(null)
+      return
+    }
+    const accelerator = acceleratorFromKeyboardEvent(event)
+    if (accelerator) bind(action, accelerator)
+  }
+
+  const failed = statuses?.some((status) => status.error) ?? false
+
+  return (
+    <section className="space-y-2">
+      <h3 className="font-medium">Keyboard shortcuts</h3>
+      <p className="text-xs text-muted-foreground">
+        Global shortcuts work while the app is in the background.
+      </p>
+      <ul className="space-y-1">
+        {SHORTCUT_ACTION_IDS.map((action) => {
+          const accelerator = bindings[action]
+          const status = statuses?.find((candidate) => candidate.action === action)
+          const isRecording = recording === action
+          return (
+            <li key={action} className="flex items-center gap-2">
+              <span className="w-40">{SHORTCUT_ACTIONS[action].label}</span>
+              <button
+                aria-pressed={isRecording}
+                onClick={() => {
+                  setConflict(null)
+                  setRecording(isRecording ? null : action)
+                }}
+                onKeyDown={isRecording ? (event) => onKeyDown(action, event) : undefined}
+                onBlur={() => setRecording((current) => (current === action ? null : current))}
+                className="w-44 rounded border bg-background px-2 py-0.5 text-left font-mono text-xs hover:bg-accent"
+              >
+                {isRecording
+                  ? 'Press keys…'
+                  : accelerator
+                    ? formatAccelerator(accelerator)
+                    : 'None'}
+              </button>
+              <button
+                disabled={accelerator === null}
+                onClick={() => bind(action, null)}
+                className="rounded border px-2 py-0.5 text-xs hover:bg-accent"
+              >
+                Clear
+              </button>
+              <button
+                disabled={accelerator === SHORTCUT_ACTIONS[action].defaultAccelerator}
+                onClick={() => bind(action, SHORTCUT_ACTIONS[action].defaultAccelerator)}
+                className="rounded border px-2 py-0.5 text-xs hover:bg-accent"
+              >
+                Reset
+              </button>
+              {status?.error && <span className="text-xs text-destructive">{status.error}</span>}
+            </li>
+          )
+        })}
+      </ul>
+      {conflict && <div className="text-xs text-destructive">{conflict}</div>}
+      {error && <div className="text-xs text-destructive">Error: {error.message}</div>}
+      {failed && (
+        <button
+          disabled={retry.isPending}
+          onClick={() => retry.mutate()}
+          className="rounded border px-3 py-1 text-xs hover:bg-accent"
+        >
+          Retry registering
+        </button>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,41 @@
+import React from 'react'
+import { X } from 'lucide-react'
+import { cn } from '@/lib/cn'
+
+type TagChip = { id: string; name: string }
+
+type TagChipsProps = {
+  tags: TagChip[]
+  onRemove?: (tag: TagChip) => void
+  className?: string
+}
+
+export const TagChips = ({
+  tags,
+  onRemove,
+  className,
+}: TagChipsProps): React.JSX.Element | null => {
+  if (tags.length === 0) return null
+  return (
+    <ul className={cn('flex flex-wrap gap-1', className)} aria-label="Tags">
+      {tags.map((tag) => (
+        <li
+          key={tag.id}
+          className="inline-flex items-center gap-1 rounded-full border bg-secondary px-2 py-0.5 text-xs text-secondary-foreground"
+        >
+          {tag.name}
+          {onRemove && (
+            <button
+              type="button"
+              aria-label={`Remove tag ${tag.name}`}
+              onClick={() => onRemove(tag)}
+              className="rounded-full text-muted-foreground hover:text-foreground focus-visible:ring-2 focus-visible:ring-ring focus-visible:outline-none"
+            >
+              <X className="size-3" />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,120 @@
+import React from 'react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { queryClient, trpc } from '@/lib/trpc'
+import { useDebouncedValue } from '@/hooks/use-debounced-value'
+import { cn } from '@/lib/cn'
+
+type TagInputProps = {
+  ideaId: string
+  existingTagIds: string[]
+}
+
+/**
+ * Text input that attaches tags to an idea, with prefix autocomplete over existing tags.
+ *
+ * @remarks
+ * Arrow keys move through suggestions, Enter attaches the highlighted suggestion (or the typed
+ * name, creating the tag), Escape closes the list. Follows the ARIA combobox pattern.
+ */
+export const TagInput = ({ ideaId, existingTagIds }: TagInputProps): React.JSX.Element => {
+  const [value, setValue] = React.useState('')
+  const [open, setOpen] = React.useState(false)
+  const [activeIndex, setActiveIndex] = React.useState(-1)
+  const prefix = useDebouncedValue(value.trim(), 150)
+  const listId = React.useId()
+
+  const { data: suggestions = [] } = useQuery({
+    ...trpc.tags.autocomplete.queryOptions({ prefix, excludeIds: existingTagIds }),
+    enabled: open && prefix.length > 0,
+  })
+
+  const attach = useMutation(
+    trpc.tags.attach.mutationOptions({
+      onSuccess: async () => {
+        setValue('')
+        setActiveIndex(-1)
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: trpc.ideas.pathKey() }),
+          queryClient.invalidateQueries({ queryKey: trpc.tags.pathKey() }),
+        ])
+      },
+    }),
+  )
+
+  const submit = (name: string): void => {
+    if (name.trim()) attach.mutate({ ideaId, name })
+  }
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>): void => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        setOpen(true)
+        setActiveIndex((i) => Math.min(i + 1, suggestions.length - 1))
+        break
+      case 'ArrowUp':
+        event.preventDefault()
+        setActiveIndex((i) => Math.max(i - 1, -1))
+        break
+      case 'Enter': {
+        event.preventDefault()
+        const active = suggestions[activeIndex]
+        submit(active ? active.name : value)
+        break
+      }
+      case 'Escape':
+        setOpen(false)
+        setActiveIndex(-1)
+        break
+    }
+  }
+
+  const showList = open && prefix.length > 0 && suggestions.length > 0
+
+  return (
+    <div className="relative">
+      <input
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        value={value}
+        disabled={attach.isPending}
+        placeholder="Add tag…"
+        onChange={(e) => {
+          setValue(e.target.value)
+          setOpen(true)
+          setActiveIndex(-1)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        className="w-40 rounded border bg-background px-2 py-0.5 text-xs"
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-40 rounded border bg-popover py-1 text-xs text-popover-foreground shadow-sm"
+        >
+          {suggestions.map((tag, i) => (
+            <li
+              key={tag.id}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Keep focus in the input so onBlur does not close the list before the click lands.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => submit(tag.name)}
+              className={cn('cursor-pointer px-2 py-1', i === activeIndex && 'bg-accent')}
+            >
+              {tag.name}
+            </li>
+          ))}
+        </ul>
+      )}
+      {attach.error && <div className="mt-1 text-xs text-destructive">{attach.error.message}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import React from 'react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { queryClient, trpc } from '@/lib/trpc'
+
+const invalidateTagged = (): Promise<unknown> =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: trpc.tags.pathKey() }),
+    queryClient.invalidateQueries({ queryKey: trpc.ideas.pathKey() }),
+  ])
+
+type TagRowProps = {
+  tag: { id: string; name: string; ideaCount: number }
+  others: Array<{ id: string; name: string }>
+}
+
+const TagRow = ({ tag, others }: TagRowProps): React.JSX.Element => {
+  const [name, setName] = React.useState(tag.name)
+  const [mergeTargetId, setMergeTargetId] = React.useState('')
+  const rename = useMutation(trpc.tags.rename.mutationOptions({ onSuccess: invalidateTagged }))
+  const merge = useMutation(trpc.tags.merge.mutationOptions({ onSuccess: invalidateTagged }))
+  const remove = useMutation(trpc.tags.delete.mutationOptions({ onSuccess: invalidateTagged }))
+  const error = rename.error ?? merge.error ?? remove.error
+
+  return (
+    <li className="space-y-1 px-3 py-2">
+      <div className="flex items-center gap-2">
+        <input
+          aria-label={`Name of tag ${tag.name}`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-40 rounded border bg-background px-2 py-0.5"
+        />
+        <button
+          disabled={name === tag.name || rename.isPending}
+          onClick={() => rename.mutate({ id: tag.id, name })}
+          className="rounded border px-2 py-0.5 hover:bg-accent"
+        >
+          Rename
+        </button>
+        <select
+          aria-label={`Merge ${tag.name} into`}
+          value={mergeTargetId}
+          onChange={(e) => setMergeTargetId(e.target.value)}
+          className="rounded border bg-background px-1 py-0.5"
+        >
+          <option value="">Merge into…</option>
+          {others.map((other) => (
+            <option key={other.id} value={other.id}>
+              {other.name}
+            </option>
+          ))}
+        </select>
+        <button
+          disabled={!mergeTargetId || merge.isPending}
+          onClick={() => merge.mutate({ sourceId: tag.id, targetId: mergeTargetId })}
+          className="rounded border px-2 py-0.5 hover:bg-accent"
+        >
+          Merge
+        </button>
+        <span className="flex-1 text-right text-muted-foreground">
+          {tag.ideaCount} {tag.ideaCount === 1 ? 'idea' : 'ideas'}
+        </span>
+        <button
+          disabled={remove.isPending}
+          onClick={() => remove.mutate({ id: tag.id })}
+          className="rounded border px-2 py-0.5 text-destructive hover:bg-destructive/10"
+        >
+          Delete
+        </button>
+      </div>
+      {error && <div className="text-destructive">{error.message}</div>}
+    </li>
+  )
+}
+
+export const TagManager = (): React.JSX.Element => {
+  const [newName, setNewName] = React.useState('')
+  const { data: tags, isLoading, error } = useQuery(trpc.tags.list.queryOptions())
+  const create = useMutation(
+    trpc.tags.create.mutationOptions({
+      onSuccess: async () => {
+        setNewName('')
+        await invalidateTagged()
+      },
+    }),
+  )
+
+  return (
+    <div className="space-y-3 text-xs">
+      <h2 className="text-sm font-medium">Tags</h2>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          create.mutate({ name: newName })
+        }}
+      >
+        <input
+          aria-label="New tag name"
+          placeholder="New tag…"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className="w-40 rounded border bg-background px-2 py-0.5"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim() || create.isPending}
+          className="rounded bg-primary px-2 py-0.5 text-primary-foreground hover:bg-primary/90"
+        >
+          Create
+        </button>
+      </form>
+      {create.error && <div className="text-destructive">{create.error.message}</div>}
+      {error && <div className="text-destructive">Error: {error.message}</div>}
+      {isLoading ? (
+        <div className="h-24 animate-pulse rounded border bg-muted" />
+      ) : tags?.length === 0 ? (
+        <div className="text-muted-foreground">No tags yet.</div>
+      ) : (
+        <ul className="divide-y rounded border">
+          {tags?.map((tag) => (
+            <TagRow
+              // Re-mount on rename so the local input state picks up the canonical name.
+              key={`${tag.id}:${tag.name}`}
+              tag={tag}
+              others={tags.filter((t) => t.id !== tag.id)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
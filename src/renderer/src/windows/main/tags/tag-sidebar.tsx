@@ -0,0 +1,93 @@
+import React from 'react'
+import { Link } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { TAG_FILTER_MAX_TAGS, type TagMatchMode } from '@shared/tags'
+import { trpc } from '@/lib/trpc'
+import { cn } from '@/lib/cn'
+
+type TagSidebarProps = {
+  selectedIds: string[]
+  mode: TagMatchMode
+  onChange: (selectedIds: string[], mode: TagMatchMode) => void
+}
+
+export const TagSidebar = ({ selectedIds, mode, onChange }: TagSidebarProps): React.JSX.Element => {
+  const { data: tags, isLoading } = useQuery(trpc.tags.list.queryOptions())
+  const atLimit = selectedIds.length >= TAG_FILTER_MAX_TAGS
+
+  const toggle = (id: string): void => {
+    onChange(
+      selectedIds.includes(id)
+        ? selectedIds.filter((t) => t !== id)
+        : atLimit
+          ? selectedIds
+          : [...selectedIds, id],
+      mode,
+    )
+  }
+
+  return (
+    <aside className="w-44 shrink-0 space-y-2 text-xs" aria-label="Filter by tag">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Tags</span>
+        <Link to="/tags" className="text-muted-foreground hover:text-foreground">
+          Manage
+        </Link>
+      </div>
+      <div role="radiogroup" aria-label="Match" className="flex rounded border p-0.5">
+        {(['all', 'any'] as const).map((m) => (
+          <button
+            key={m}
+            role="radio"
+            aria-checked={mode === m}
+            onClick={() => onChange(selectedIds, m)}
+            className={cn('flex-1 rounded px-2 py-0.5', mode === m && 'bg-accent')}
+          >
+            {m === 'all' ? 'All (AND)' : 'Any (OR)'}
+          </button>
+        ))}
+      </div>
+      {isLoading ? (
+        <div className="h-16 animate-pulse rounded bg-muted" />
+      ) : (
+        <ul className="space-y-0.5">
+          {tags?.map((tag) => {
+            const selected = selectedIds.includes(tag.id)
+            return (
+              <li key={tag.id}>
+                <label
+                  className={cn(
+                    'flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 hover:bg-accent',
+                    atLimit && !selected && 'cursor-not-allowed opacity-50',
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    disabled={atLimit && !selected}
+                    onChange={() => toggle(tag.id)}
+                  />
+                  <span className="flex-1 truncate">{tag.name}</span>
+                  <span className="text-muted-foreground">{tag.ideaCount}</span>
+                </label>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      {atLimit && (
+        <div className="text-muted-foreground">
+          Up to {TAG_FILTER_MAX_TAGS} tags can be combined in one filter.
+        </div>
+      )}
+      {selectedIds.length > 0 && (
+        <button
+          onClick={() => onChange([], mode)}
+          className="text-muted-foreground hover:text-foreground"
+        >
+          Clear filter
+        </button>
+      )}
+    </aside>
+  )
+}
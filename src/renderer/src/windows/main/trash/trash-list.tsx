@@ -0,0 +1,105 @@
+import React from 'react'
+import { useInfiniteQuery, useMutation } from '@tanstack/react-query'
+import { format, formatDistanceToNow } from 'date-fns'
+import { queryClient, trpc } from '@/lib/trpc'
+
+const PAGE_SIZE = 20
+
+// Restoring or deleting changes idea lists, search results and tag counts as well as the trash.
+const invalidateAfterTrashChange = async (): Promise<void> => {
+  await Promise.all([
+    queryClient.invalidateQueries({ queryKey: trpc.trash.pathKey() }),
+    queryClient.invalidateQueries({ queryKey: trpc.ideas.pathKey() }),
+    queryClient.invalidateQueries({ queryKey: trpc.tags.pathKey() }),
+  ])
+}
+
+export const TrashList = (): React.JSX.Element => {
+  const { data, error, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } =
+    useInfiniteQuery(
+      trpc.trash.list.infiniteQueryOptions(
+        { limit: PAGE_SIZE },
+        { getNextPageParam: (last) => last.nextCursor },
+      ),
+    )
+  const restore = useMutation(
+    trpc.trash.restore.mutationOptions({ onSuccess: invalidateAfterTrashChange }),
+  )
+  const deletePermanently = useMutation(
+    trpc.trash.deletePermanently.mutationOptions({ onSuccess: invalidateAfterTrashChange }),
+  )
+  const emptyTrash = useMutation(
+    trpc.trash.empty.mutationOptions({ onSuccess: invalidateAfterTrashChange }),
+  )
+
+  const ideas = data?.pages.flatMap((page) => page.items) ?? []
+  const pending = restore.isPending || deletePermanently.isPending || emptyTrash.isPending
+  const mutationError = restore.error ?? deletePermanently.error ?? emptyTrash.error
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="font-medium">Trash</h2>
+        <button
+          disabled={pending || ideas.length === 0}
+          onClick={() => {
+            if (window.confirm('Permanently delete every idea in the trash?')) emptyTrash.mutate()
+          }}
+          className="rounded border px-3 py-1 text-xs text-destructive hover:bg-destructive/10 disabled:opacity-50"
+        >
+          Empty trash
+        </button>
+      </div>
+      {error && <div className="text-destructive">Error: {error.message}</div>}
+      {mutationError && <div className="text-xs text-destructive">{mutationError.message}</div>}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-12 animate-pulse rounded border bg-muted" />
+          ))}
+        </div>
+      ) : ideas.length === 0 ? (
+        <div className="text-muted-foreground">The trash is empty.</div>
+      ) : (
+        <ul className="divide-y rounded border">
+          {ideas.map((idea) => (
+            <li key={idea.id} className="flex items-center justify-between gap-4 px-3 py-2">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{idea.title}</div>
+                <div className="text-xs text-muted-foreground">
+                  Deleted {format(idea.deletedAt, 'PP p')} · Purged{' '}
+                  {formatDistanceToNow(idea.purgeAt, { addSuffix: true })}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <button
+                  disabled={pending}
+                  onClick={() => restore.mutate({ id: idea.id })}
+                  className="rounded border px-3 py-1 text-xs hover:bg-accent"
+                >
+                  Restore
+                </button>
+                <button
+                  disabled={pending}
+                  onClick={() => deletePermanently.mutate({ id: idea.id })}
+                  className="rounded border px-3 py-1 text-xs text-destructive hover:bg-destructive/10"
+                >
+                  Delete permanently
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {hasNextPage && (
+        <button
+          className="rounded border px-3 py-1 text-xs hover:bg-accent"
+          disabled={isFetchingNextPage}
+          onClick={() => fetchNextPage()}
+        >
+          {isFetchingNextPage ? 'Loading…' : 'Load more'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+import type React from 'react'
+import type { WindowType } from '@shared/window-types'
+
+/**
+ * Lazy app component per window type, loaded by `AppLoader` (`src/renderer/index.tsx`).
+ *
+ * Kept beside the window apps rather than in `@shared/window-registry`, which the main process
+ * bundles too; `satisfies` makes a type registered there without an entry here a type error.
+ */
+export const WINDOW_ENTRIES = {
+  main: () => import('./main-app'),
+  dashboard: () => import('./dashboard-app'),
+  control: () => import('./control-app'),
+  capture: () => import('./capture-app'),
+} satisfies Record<WindowType, () => Promise<{ default: React.ComponentType }>>